@@ -2,7 +2,9 @@
 
 import type React from "react"
 
-import { useState } from "react"
+import { useEffect, useRef, useState } from "react"
+import NextLink from "next/link"
+import { useRouter } from "next/navigation"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import { DndProvider } from "react-dnd"
@@ -13,27 +15,49 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { addProofSchema, type AddProofFormData } from "./lib/validation"
-import { uploadFileToSupabase } from "./lib/supabase-client"
-import { insertProofRecord, type ProofSubmission } from "./lib/supabase-actions"
+import {
+  discardUploadedFiles,
+  findDuplicateProofs,
+  getTerm,
+  submitProof,
+  type ProofSubmission,
+} from "./lib/supabase-actions"
+import type { ProofAttachmentInput, ProofDuplicate } from "./lib/repositories"
+import { hashFile } from "./lib/file-hash"
+import { storeSubmitterToken } from "./lib/submitter-token-store"
+import { formatFileSize } from "./lib/utils"
+import { INITIAL_PROOF_STATUS, PROOF_STATUS_LABELS, type ProofStatus } from "./lib/proof-status"
+import { formatMissingProofTypes, getMissingProofTypes, TERM_PROOF_TYPE_LABELS, type Term } from "./lib/terms"
 import { MediaViewer } from "./components/media-viewer"
 import { FileUploadZone } from "./components/file-upload-zone"
+import { UploadProgress } from "./components/upload-progress"
+import { DuplicateProofsNotice } from "./components/duplicate-proofs-notice"
+import { LinkPreviewCard } from "./components/link-preview-card"
+import { useProofUploads, type UploadedFiles } from "./hooks/use-proof-uploads"
 
 interface SubmissionResult {
   id?: number
   proofLink?: string
-  fileName?: string
-  fileUrl?: string
-  fileSize?: number
-  fileType?: string
+  attachments: ProofAttachmentInput[]
   submittedAt: string
-  status: string
+  status: ProofStatus
 }
 
-export default function Component() {
+interface ComponentProps {
+  termId: number
+}
+
+export default function Component({ termId }: ComponentProps) {
+  const router = useRouter()
   const [isOpen, setIsOpen] = useState(false)
+  const [term, setTerm] = useState<Term | null>(null)
   const [submissionResult, setSubmissionResult] = useState<SubmissionResult | null>(null)
   const [isSubmitting, setIsSubmitting] = useState(false)
-  const [showMediaViewer, setShowMediaViewer] = useState(false)
+  const [viewedAttachment, setViewedAttachment] = useState<ProofAttachmentInput | null>(null)
+  const { progress: uploadProgress, uploadFiles, pause, resume, cancel } = useProofUploads()
+  const [duplicates, setDuplicates] = useState<ProofDuplicate[]>([])
+  const [duplicateFileNames, setDuplicateFileNames] = useState<Record<string, string>>({})
+  const fileHashesRef = useRef(new WeakMap<File, Promise<string>>())
 
   const {
     register,
@@ -43,23 +67,75 @@ export default function Component() {
     formState: { errors },
     reset,
     clearErrors,
+    setError,
   } = useForm<AddProofFormData>({
     resolver: zodResolver(addProofSchema),
     mode: "onChange",
+    defaultValues: { files: [] },
   })
 
-  const watchedFile = watch("file")
+  const watchedFiles = watch("files")
   const watchedProofLink = watch("proofLink")
 
+  // Load the term being executed so the form can show what it requires
+  useEffect(() => {
+    if (!isOpen || term?.id === termId) return
+
+    getTerm(termId).then((result) => {
+      if (result.term) {
+        setTerm(result.term)
+      } else {
+        console.error("Failed to load term:", result.error)
+      }
+    })
+  }, [isOpen, termId, term?.id])
+
+  // Warn before uploading when a selected file or the link was already submitted. Hashes are cached
+  // per file so typing in the link field doesn't rehash large videos.
+  useEffect(() => {
+    if (!isOpen) return
+
+    let cancelled = false
+    const files = watchedFiles ?? []
+
+    const timer = setTimeout(async () => {
+      try {
+        const hashes = await Promise.all(
+          files.map((file) => {
+            let hash = fileHashesRef.current.get(file)
+            if (!hash) {
+              hash = hashFile(file)
+              fileHashesRef.current.set(file, hash)
+            }
+            return hash
+          }),
+        )
+
+        const result = await findDuplicateProofs({ fileHashes: hashes, proofLink: watchedProofLink })
+        if (cancelled) return
+
+        setDuplicates(result.duplicates ?? [])
+        setDuplicateFileNames(Object.fromEntries(hashes.map((hash, index) => [hash, files[index].name])))
+      } catch (error) {
+        console.error("Duplicate check failed:", error)
+      }
+    }, 500)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [isOpen, watchedFiles, watchedProofLink])
+
   const handleExecuteClick = () => {
     console.log("Execute button clicked!")
     setIsOpen(true)
   }
 
-  const handleFileChange = (file: File | undefined) => {
-    setValue("file", file, { shouldValidate: true })
-    // Clear root error when file is selected
-    if (errors.root && file) {
+  const handleFilesChange = (files: File[]) => {
+    setValue("files", files, { shouldValidate: true })
+    // Clear root error when a file is selected
+    if (errors.root && files.length > 0) {
       clearErrors("root")
     }
   }
@@ -74,67 +150,71 @@ export default function Component() {
   }
 
   const onSubmit = async (data: AddProofFormData) => {
+    if (term) {
+      const missing = getMissingProofTypes(term, {
+        proofLink: data.proofLink,
+        fileTypes: data.files.map((file) => file.type),
+      })
+      if (missing.length > 0) {
+        setError("root", { message: formatMissingProofTypes(missing) })
+        return
+      }
+    }
+
     setIsSubmitting(true)
 
     try {
-      let fileUrl: string | undefined
-      let uploadError: string | undefined
-
-      // Upload file to Supabase if provided
-      if (data.file) {
-        console.log("Uploading file:", data.file.name)
-        const uploadResult = await uploadFileToSupabase(data.file)
-        if (uploadResult.error) {
-          uploadError = uploadResult.error
-          console.error("File upload failed:", uploadResult.error)
-        } else {
-          fileUrl = uploadResult.url
-          console.log("File uploaded successfully:", fileUrl)
-        }
+      let uploaded: UploadedFiles | null
+
+      // Upload files in order, stopping at the first failure
+      try {
+        uploaded = await uploadFiles(data.files)
+      } catch (error) {
+        console.error("File upload failed:", error)
+        alert(`File upload failed: ${error instanceof Error ? error.message : "Unknown error"}`)
+        return
       }
 
-      // If file upload failed, show error and stop
-      if (uploadError) {
-        alert(`File upload failed: ${uploadError}`)
+      // Cancelled by the user, so there's nothing to record
+      if (!uploaded) {
         return
       }
 
       // Prepare proof data for database
       const proofData: ProofSubmission = {
+        termId,
         proofLink: data.proofLink,
-        fileName: data.file?.name,
-        fileUrl,
-        fileSize: data.file?.size,
-        fileType: data.file?.type,
+        attachments: uploaded.attachments,
       }
 
-      console.log("Inserting proof record:", proofData)
-
-      // Insert proof record into database
-      const dbResult = await insertProofRecord(proofData)
+      const dbResult = await submitProof(proofData)
 
+      // The files are of no use without the record, so they're deleted again
       if (!dbResult.success) {
-        console.error("Database insertion failed:", dbResult.error)
-        alert(`Database error: ${dbResult.error}`)
+        void discardUploadedFiles(uploaded.receipts)
+        console.error("Proof submission failed:", dbResult.error)
+        alert(`Submission failed: ${dbResult.error}`)
         return
       }
 
-      console.log("Proof record inserted successfully:", dbResult.id)
+      console.log("Proof submitted successfully:", dbResult.id)
+
+      if (dbResult.id !== undefined && dbResult.submitterToken) {
+        storeSubmitterToken(dbResult.id, dbResult.submitterToken)
+      }
 
       // Success - show results
       const result: SubmissionResult = {
         id: dbResult.id,
         proofLink: data.proofLink,
-        fileName: data.file?.name,
-        fileUrl,
-        fileSize: data.file?.size,
-        fileType: data.file?.type,
+        attachments: dbResult.attachments ?? uploaded.attachments,
         submittedAt: new Date().toISOString(),
-        status: "pending",
+        status: INITIAL_PROOF_STATUS,
       }
 
       setSubmissionResult(result)
       reset()
+      router.refresh()
     } catch (error) {
       console.error("Submission error:", error)
       alert(`Submission failed: ${error instanceof Error ? error.message : "Unknown error"}`)
@@ -143,23 +223,18 @@ export default function Component() {
     }
   }
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return "0 Bytes"
-    const k = 1024
-    const sizes = ["Bytes", "KB", "MB"]
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
-  }
-
   const handleClose = () => {
     console.log("Closing dialog")
+    cancel()
     setIsOpen(false)
     setSubmissionResult(null)
+    setViewedAttachment(null)
     reset()
   }
 
   const handleNewSubmission = () => {
     setSubmissionResult(null)
+    setViewedAttachment(null)
   }
 
   console.log("Component render - isOpen:", isOpen)
@@ -173,7 +248,7 @@ export default function Component() {
       </Button>
 
       {/* Dialog without DialogTrigger */}
-      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <Dialog open={isOpen} onOpenChange={(open) => (open ? setIsOpen(true) : handleClose())}>
         <DialogContent className="sm:max-w-md">
           {submissionResult ? (
             // Success view
@@ -191,38 +266,58 @@ export default function Component() {
 
                 <div>
                   <span className="text-sm font-medium text-gray-700">Proof ID:</span>
-                  <p className="text-sm text-gray-600">#{submissionResult.id}</p>
+                  {submissionResult.id ? (
+                    <NextLink
+                      href={`/proofs/${submissionResult.id}`}
+                      className="block text-sm text-blue-600 hover:underline"
+                    >
+                      #{submissionResult.id}
+                    </NextLink>
+                  ) : (
+                    <p className="text-sm text-gray-600">#{submissionResult.id}</p>
+                  )}
                 </div>
 
                 {submissionResult.proofLink && (
                   <div>
                     <span className="text-sm font-medium text-gray-700">Proof Link:</span>
                     <p className="text-sm text-blue-600 break-all">{submissionResult.proofLink}</p>
+                    {submissionResult.id && (
+                      <div className="mt-2">
+                        <LinkPreviewCard proofId={submissionResult.id} proofLink={submissionResult.proofLink} />
+                      </div>
+                    )}
                   </div>
                 )}
 
-                {submissionResult.fileName && (
+                {submissionResult.attachments.length > 0 && (
                   <div>
-                    <span className="text-sm font-medium text-gray-700">File:</span>
-                    <p className="text-sm text-gray-600">
-                      {submissionResult.fileName} ({formatFileSize(submissionResult.fileSize || 0)})
-                    </p>
-                    {submissionResult.fileUrl && (
-                      <Button
-                        variant="link"
-                        size="sm"
-                        className="h-auto p-0 text-xs text-blue-600 hover:underline"
-                        onClick={() => setShowMediaViewer(true)}
-                      >
-                        View File
-                      </Button>
-                    )}
+                    <span className="text-sm font-medium text-gray-700">
+                      {submissionResult.attachments.length === 1 ? "File:" : "Files:"}
+                    </span>
+                    <ul className="space-y-1">
+                      {submissionResult.attachments.map((attachment) => (
+                        <li key={attachment.filePath}>
+                          <p className="text-sm text-gray-600">
+                            {attachment.fileName} ({formatFileSize(attachment.fileSize)})
+                          </p>
+                          <Button
+                            variant="link"
+                            size="sm"
+                            className="h-auto p-0 text-xs text-blue-600 hover:underline"
+                            onClick={() => setViewedAttachment(attachment)}
+                          >
+                            View File
+                          </Button>
+                        </li>
+                      ))}
+                    </ul>
                   </div>
                 )}
 
                 <div>
                   <span className="text-sm font-medium text-gray-700">Status:</span>
-                  <span className="text-sm text-yellow-600 capitalize ml-1">{submissionResult.status}</span>
+                  <span className="text-sm text-yellow-600 ml-1">{PROOF_STATUS_LABELS[submissionResult.status]}</span>
                 </div>
 
                 <div>
@@ -245,7 +340,14 @@ export default function Component() {
             <>
               <DialogHeader>
                 <DialogTitle>Add Proof</DialogTitle>
-                <DialogDescription>Submit a proof link or upload a file to execute the term.</DialogDescription>
+                <DialogDescription>
+                  Submit a proof link or upload a file to execute {term ? `"${term.title}"` : "the term"}.
+                </DialogDescription>
+                {term && term.requiredProofTypes.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Required: {term.requiredProofTypes.map((type) => TERM_PROOF_TYPE_LABELS[type]).join(", ")}
+                  </p>
+                )}
               </DialogHeader>
 
               <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
@@ -283,12 +385,24 @@ export default function Component() {
 
                 {/* Enhanced File Upload Section with React DnD */}
                 <FileUploadZone
-                  onFileChange={handleFileChange}
-                  watchedFile={watchedFile}
+                  files={watchedFiles}
+                  onFilesChange={handleFilesChange}
                   errors={errors}
                   formatFileSize={formatFileSize}
                 />
 
+                {/* Duplicate Warning */}
+                <DuplicateProofsNotice
+                  duplicates={duplicates}
+                  fileNames={duplicateFileNames}
+                  title="This evidence was submitted before. You can still submit it, but reviewers will see it flagged."
+                />
+
+                {/* Upload Progress */}
+                {uploadProgress && (
+                  <UploadProgress progress={uploadProgress} onPause={pause} onResume={resume} onCancel={cancel} />
+                )}
+
                 {/* Action Buttons */}
                 <div className="flex gap-3 pt-4">
                   <Button
@@ -296,25 +410,27 @@ export default function Component() {
                     onClick={handleClose}
                     variant="outline"
                     className="flex-1"
-                    disabled={isSubmitting}
+                    disabled={isSubmitting && !uploadProgress}
                   >
                     Cancel
                   </Button>
                   <Button type="submit" className="flex-1" disabled={isSubmitting}>
-                    {isSubmitting ? "Submitting..." : "Submit"}
+                    {uploadProgress ? "Uploading..." : isSubmitting ? "Submitting..." : "Submit"}
                   </Button>
                 </div>
               </form>
             </>
           )}
-          {submissionResult && submissionResult.fileUrl && (
+          {submissionResult && viewedAttachment && (
             <MediaViewer
-              isOpen={showMediaViewer}
-              onClose={() => setShowMediaViewer(false)}
-              fileUrl={submissionResult.fileUrl}
-              fileName={submissionResult.fileName || "Unknown file"}
-              fileType={submissionResult.fileType || "application/octet-stream"}
-              fileSize={submissionResult.fileSize}
+              isOpen={viewedAttachment !== null}
+              onClose={() => setViewedAttachment(null)}
+              filePath={viewedAttachment.filePath}
+              fileName={viewedAttachment.fileName}
+              fileType={viewedAttachment.fileType}
+              fileSize={viewedAttachment.fileSize}
+              thumbnailPath={viewedAttachment.thumbnailPath}
+              metadata={viewedAttachment.metadata}
             />
           )}
         </DialogContent>
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server"
+import { sweepOrphanedFiles } from "@/lib/orphaned-files"
+
+// Deletes stored proof files that no proof refers to. Meant for a scheduled job (see vercel.json),
+// which authenticates with the CRON_SECRET bearer token.
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+  }
+
+  try {
+    const { scanned, deleted } = await sweepOrphanedFiles()
+    console.log(`Orphaned file sweep: scanned ${scanned}, deleted ${deleted.length}`)
+    return NextResponse.json({ scanned, deleted })
+  } catch (error) {
+    console.error("Orphaned file sweep failed:", error)
+    return NextResponse.json({ error: "Sweep failed" }, { status: 500 })
+  }
+}
@@ -0,0 +1,85 @@
+import { getStorageProvider, isLocalStorageProvider, type ByteRange } from "@/lib/storage"
+
+// Serves files stored by the local storage provider to holders of a valid signed URL; other
+// providers serve their own signed URLs
+
+interface RouteContext {
+  params: Promise<{ path: string[] }>
+}
+
+// Parses a single "bytes=start-end" range, the only form browsers send for media
+function parseRange(header: string | null, size: number): ByteRange | null {
+  const match = header?.match(/^bytes=(\d*)-(\d*)$/)
+  if (!match || (!match[1] && !match[2])) return null
+
+  if (!match[1]) {
+    // Suffix range: the last N bytes
+    const length = Math.min(Number(match[2]), size)
+    return { start: size - length, end: size - 1 }
+  }
+
+  const start = Number(match[1])
+  const end = match[2] ? Math.min(Number(match[2]), size - 1) : size - 1
+  return start <= end ? { start, end } : null
+}
+
+export async function GET(request: Request, { params }: RouteContext) {
+  const storage = getStorageProvider()
+  if (!isLocalStorageProvider(storage)) {
+    return new Response("Not found", { status: 404 })
+  }
+
+  const objectPath = (await params).path.join("/")
+  const { searchParams } = new URL(request.url)
+
+  try {
+    if (!storage.verifySignedUrl(objectPath, searchParams)) {
+      return new Response("Invalid or expired signature", { status: 403 })
+    }
+
+    const info = await storage.head(objectPath)
+    if (!info) {
+      return new Response("Not found", { status: 404 })
+    }
+
+    const headers = new Headers({
+      "Content-Type": info.contentType,
+      "Accept-Ranges": "bytes",
+      // Never cache past the signature's expiry
+      "Cache-Control": `private, max-age=${Math.max(0, Number(searchParams.get("expires")) - Math.floor(Date.now() / 1000))}`,
+      "X-Content-Type-Options": "nosniff",
+      // Files come from users but are served from the app's own origin, so a file opened directly,
+      // whatever its type, runs no scripts and loads nothing. Images, videos and PDFs embedded in the
+      // app's pages are unaffected, since only documents enforce a policy.
+      "Content-Security-Policy": "sandbox; default-src 'none'",
+    })
+
+    // Archived link snapshots are HTML from other sites, shown with their inlined styles and images
+    if (info.contentType.startsWith("text/html")) {
+      headers.set(
+        "Content-Security-Policy",
+        "sandbox allow-popups allow-popups-to-escape-sandbox; default-src 'none'; img-src data:; style-src 'unsafe-inline'; font-src data:",
+      )
+    }
+
+    const rangeHeader = request.headers.get("range")
+    const range = rangeHeader ? parseRange(rangeHeader, info.size) : null
+
+    if (rangeHeader && !range) {
+      headers.set("Content-Range", `bytes */${info.size}`)
+      return new Response(null, { status: 416, headers })
+    }
+
+    if (range) {
+      headers.set("Content-Range", `bytes ${range.start}-${range.end}/${info.size}`)
+      headers.set("Content-Length", String(range.end! - range.start + 1))
+      return new Response(await storage.stream(objectPath, range), { status: 206, headers })
+    }
+
+    headers.set("Content-Length", String(info.size))
+    return new Response(await storage.stream(objectPath), { headers })
+  } catch (error) {
+    console.error("Storage read error:", error)
+    return new Response("Invalid path", { status: 400 })
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server"
+import {
+  appendToResumableUpload,
+  getResumableUpload,
+  getResumableUploadHeaders,
+  ResumableUploadError,
+  terminateResumableUpload,
+  TUS_VERSION,
+} from "@/lib/resumable-upload-store"
+
+// Receives the chunks of a resumable upload created through POST /api/uploads
+
+interface RouteContext {
+  params: Promise<{ id: string }>
+}
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof ResumableUploadError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.status, headers: { "Tus-Resumable": TUS_VERSION } },
+    )
+  }
+
+  console.error("Upload error:", error)
+  return NextResponse.json({ error: fallback }, { status: 500, headers: { "Tus-Resumable": TUS_VERSION } })
+}
+
+// Reports how far an upload got, so the client knows where to resume
+export async function HEAD(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    const upload = await getResumableUpload(id)
+    if (!upload) {
+      return new Response(null, { status: 404, headers: { "Tus-Resumable": TUS_VERSION, "Cache-Control": "no-store" } })
+    }
+
+    return new Response(null, { status: 200, headers: getResumableUploadHeaders(upload) })
+  } catch (error) {
+    // HEAD responses can't carry the error body, only its status
+    const status = error instanceof ResumableUploadError ? error.status : 500
+    return new Response(null, { status, headers: { "Tus-Resumable": TUS_VERSION, "Cache-Control": "no-store" } })
+  }
+}
+
+export async function PATCH(request: Request, { params }: RouteContext) {
+  const { id } = await params
+
+  if (request.headers.get("Tus-Resumable") !== TUS_VERSION) {
+    return NextResponse.json({ error: "Unsupported Tus-Resumable version" }, { status: 412 })
+  }
+
+  if (request.headers.get("Content-Type") !== "application/offset+octet-stream") {
+    return NextResponse.json({ error: "Content-Type must be application/offset+octet-stream" }, { status: 415 })
+  }
+
+  const offset = Number(request.headers.get("Upload-Offset"))
+  if (!Number.isSafeInteger(offset) || offset < 0) {
+    return NextResponse.json({ error: "Upload-Offset must be a non-negative integer" }, { status: 400 })
+  }
+
+  try {
+    const upload = await appendToResumableUpload(id, offset, request.body)
+    return new Response(null, { status: 204, headers: getResumableUploadHeaders(upload) })
+  } catch (error) {
+    return errorResponse(error, "Failed to upload file")
+  }
+}
+
+export async function DELETE(_request: Request, { params }: RouteContext) {
+  const { id } = await params
+
+  try {
+    await terminateResumableUpload(id)
+    return new Response(null, { status: 204, headers: { "Tus-Resumable": TUS_VERSION } })
+  } catch (error) {
+    return errorResponse(error, "Failed to cancel upload")
+  }
+}
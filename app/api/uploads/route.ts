@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import {
+  createResumableUpload,
+  getResumableUploadHeaders,
+  parseUploadMetadata,
+  ResumableUploadError,
+  TUS_VERSION,
+} from "@/lib/resumable-upload-store"
+import { MAX_VIDEO_SIZE } from "@/lib/validation"
+
+// Creates a resumable upload for the local storage provider (tus 1.0 creation extension), granted by
+// the startProofUpload action; chunks go to /api/uploads/[id]
+
+export async function OPTIONS() {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "Tus-Resumable": TUS_VERSION,
+      "Tus-Version": TUS_VERSION,
+      "Tus-Extension": "creation,termination,expiration",
+      "Tus-Max-Size": String(MAX_VIDEO_SIZE),
+    },
+  })
+}
+
+export async function POST(request: Request) {
+  if (request.headers.get("Tus-Resumable") !== TUS_VERSION) {
+    return NextResponse.json({ error: "Unsupported Tus-Resumable version" }, { status: 412 })
+  }
+
+  try {
+    const upload = await createResumableUpload(
+      Number(request.headers.get("Upload-Length")),
+      parseUploadMetadata(request.headers.get("Upload-Metadata")),
+    )
+
+    return new Response(null, {
+      status: 201,
+      headers: { ...getResumableUploadHeaders(upload), Location: `/api/uploads/${upload.id}` },
+    })
+  } catch (error) {
+    if (error instanceof ResumableUploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    console.error("Upload error:", error)
+    return NextResponse.json({ error: "Failed to start upload" }, { status: 500 })
+  }
+}
@@ -1,12 +1,63 @@
-"use client"
-
+import Link from "next/link"
+import { CalendarClock } from "lucide-react"
 import { Button } from "@/components/ui/button"
-import Component from "../add-proof-modal"
+import { listTerms } from "@/lib/supabase-actions"
+import { isTermOverdue, TERM_PROOF_TYPE_LABELS } from "@/lib/terms"
+
+// Terms change at runtime, so never serve a list prerendered at build time
+export const dynamic = "force-dynamic"
+
+export default async function Page() {
+  const result = await listTerms()
+  const terms = result.terms ?? []
 
-export default function Page() {
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
-      <Component />
+    <div className="min-h-screen bg-gray-100 py-10">
+      <div className="mx-auto max-w-3xl space-y-6 px-4">
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold text-gray-900">Terms</h1>
+          <Button asChild variant="link" size="sm">
+            <Link href="/proofs">View submitted proofs</Link>
+          </Button>
+        </div>
+
+        {!result.success && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Failed to load terms: {result.error}
+          </div>
+        )}
+
+        {result.success && terms.length === 0 && (
+          <p className="text-sm text-gray-500">No terms have been created yet.</p>
+        )}
+
+        <ul className="space-y-3">
+          {terms.map((term) => (
+            <li key={term.id}>
+              <Link
+                href={`/terms/${term.id}`}
+                className="block bg-white rounded-lg border p-4 hover:border-gray-300 hover:shadow-sm transition-shadow"
+              >
+                <p className="font-medium text-gray-900">{term.title}</p>
+                {term.description && <p className="text-sm text-gray-600 line-clamp-2">{term.description}</p>}
+                <div className="flex flex-wrap items-center gap-3 mt-2 text-xs text-gray-500">
+                  {term.dueDate && (
+                    <span className={`flex items-center gap-1 ${isTermOverdue(term) ? "text-red-600" : ""}`}>
+                      <CalendarClock className="size-3" />
+                      Due {new Date(term.dueDate).toLocaleDateString()}
+                    </span>
+                  )}
+                  {term.requiredProofTypes.length > 0 && (
+                    <span>
+                      Requires {term.requiredProofTypes.map((type) => TERM_PROOF_TYPE_LABELS[type]).join(", ")}
+                    </span>
+                  )}
+                </div>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </div>
     </div>
   )
 }
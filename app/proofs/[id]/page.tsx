@@ -0,0 +1,153 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DuplicateProofsNotice } from "@/components/duplicate-proofs-notice"
+import { LinkPreviewCard } from "@/components/link-preview-card"
+import { LinkSnapshot } from "@/components/link-snapshot"
+import { MediaViewer } from "@/components/media-viewer"
+import { ProofReviewPanel } from "@/components/proof-review-panel"
+import { ProofStatusBadge } from "@/components/proof-status-badge"
+import { resolveEmbed } from "@/lib/embed-providers"
+import { PROOF_STATUS_LABELS } from "@/lib/proof-status"
+import { findDuplicateProofs, getProof, getProofStatusHistory } from "@/lib/supabase-actions"
+import { formatFileSize } from "@/lib/utils"
+
+interface ProofDetailPageProps {
+  params: Promise<{ id: string }>
+}
+
+export default async function ProofDetailPage({ params }: ProofDetailPageProps) {
+  const { id } = await params
+  const proofId = Number(id)
+
+  if (!Number.isInteger(proofId) || proofId <= 0) {
+    notFound()
+  }
+
+  const [proofResult, historyResult] = await Promise.all([getProof(proofId), getProofStatusHistory(proofId)])
+
+  if (!proofResult.proof) {
+    notFound()
+  }
+
+  const proof = proofResult.proof
+  const attachments = proof.attachments ?? []
+  const events = historyResult.events ?? []
+
+  const duplicateResult = await findDuplicateProofs({
+    fileHashes: attachments.flatMap((attachment) => (attachment.sha256 ? [attachment.sha256] : [])),
+    proofLink: proof.proofLink,
+    excludeProofId: proof.id,
+  })
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10">
+      <div className="mx-auto max-w-5xl space-y-6 px-4">
+        <Button asChild variant="ghost" size="sm" className="-ml-3">
+          <Link href="/proofs">
+            <ArrowLeft className="mr-2 size-4" />
+            All proofs
+          </Link>
+        </Button>
+
+        <div className="flex items-center justify-between gap-4">
+          <h1 className="text-2xl font-semibold text-gray-900">Proof #{proof.id}</h1>
+          <ProofStatusBadge status={proof.status} />
+        </div>
+
+        <div className="bg-white rounded-lg border p-4 space-y-3">
+          <h2 className="font-semibold text-gray-900">Submission Details</h2>
+
+          <div>
+            <span className="text-sm font-medium text-gray-700">Term:</span>
+            <Link href={`/terms/${proof.termId}`} className="block text-sm text-blue-600 hover:underline">
+              #{proof.termId}
+            </Link>
+          </div>
+
+          {proof.proofLink && (
+            <div>
+              <span className="text-sm font-medium text-gray-700">Proof Link:</span>
+              <a
+                href={proof.proofLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-sm text-blue-600 break-all hover:underline"
+              >
+                {proof.proofLink}
+              </a>
+              <div className="mt-2">
+                <LinkPreviewCard proofId={proof.id} proofLink={proof.proofLink} preview={proof.linkPreview} />
+              </div>
+              {proof.linkCheck && (
+                <div className="mt-2">
+                  <LinkSnapshot check={proof.linkCheck} snapshotPath={proof.linkSnapshotPath} />
+                </div>
+              )}
+            </div>
+          )}
+
+          {attachments.length > 0 && (
+            <div>
+              <span className="text-sm font-medium text-gray-700">
+                {attachments.length === 1 ? "File:" : `Files (${attachments.length}):`}
+              </span>
+              <ul>
+                {attachments.map((attachment) => (
+                  <li key={attachment.id} className="text-sm text-gray-600">
+                    {attachment.fileName} ({formatFileSize(attachment.fileSize)}) • {attachment.fileType}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div>
+            <span className="text-sm font-medium text-gray-700">Submitted:</span>
+            <p className="text-sm text-gray-600">{new Date(proof.createdAt).toLocaleString()}</p>
+          </div>
+
+          {proof.reviewerNotes && (
+            <div>
+              <span className="text-sm font-medium text-gray-700">Reviewer Notes:</span>
+              <p className="text-sm text-gray-600 whitespace-pre-line">{proof.reviewerNotes}</p>
+            </div>
+          )}
+        </div>
+
+        <DuplicateProofsNotice
+          duplicates={duplicateResult.duplicates ?? []}
+          title="Possible duplicate: the same evidence was submitted before"
+        />
+
+        {/* Links that can't be embedded are already shown by the preview card */}
+        {proof.proofLink && resolveEmbed(proof.proofLink) && (
+          <MediaViewer variant="inline" proofLink={proof.proofLink} linkPreview={proof.linkPreview} />
+        )}
+
+        {attachments.length > 0 && <MediaViewer variant="inline" items={attachments} />}
+
+        <ProofReviewPanel proofId={proof.id} status={proof.status} />
+
+        {events.length > 0 && (
+          <div className="bg-white rounded-lg border p-4 space-y-3">
+            <h2 className="font-semibold text-gray-900">Review History</h2>
+            <ol className="space-y-3">
+              {events.map((event) => (
+                <li key={event.id} className="text-sm">
+                  <p className="text-gray-900">
+                    {PROOF_STATUS_LABELS[event.fromStatus]} → {PROOF_STATUS_LABELS[event.toStatus]}
+                    <span className="text-gray-500"> by {event.reviewerId}</span>
+                  </p>
+                  <p className="text-xs text-gray-500">{new Date(event.createdAt).toLocaleString()}</p>
+                  {event.notes && <p className="text-gray-600 whitespace-pre-line mt-1">{event.notes}</p>}
+                </li>
+              ))}
+            </ol>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import { ProofsFilters } from "@/components/proofs-filters"
+import { ProofsPagination, ProofsTable } from "@/components/proofs-table"
+import { parseProofListQuery } from "@/lib/proof-query"
+import { getSignedFileUrls, listProofs } from "@/lib/supabase-actions"
+
+interface ProofsPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function ProofsPage({ searchParams }: ProofsPageProps) {
+  const query = parseProofListQuery(await searchParams)
+  const result = await listProofs(query)
+
+  const proofs = result.proofs ?? []
+  const total = result.total ?? 0
+  const thumbnails = await getSignedFileUrls(proofs.flatMap((proof) => proof.thumbnailPath ?? []))
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10">
+      <div className="mx-auto max-w-6xl space-y-6 px-4">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Proofs</h1>
+          <p className="text-sm text-gray-500">
+            {total} {total === 1 ? "proof" : "proofs"} submitted
+          </p>
+        </div>
+
+        <ProofsFilters query={query} />
+
+        {!result.success && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+            Failed to load proofs: {result.error}
+          </div>
+        )}
+
+        <ProofsTable proofs={proofs} query={query} thumbnailUrls={thumbnails.urls} />
+        <ProofsPagination query={query} total={total} />
+      </div>
+    </div>
+  )
+}
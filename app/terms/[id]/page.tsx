@@ -0,0 +1,87 @@
+import Link from "next/link"
+import { notFound } from "next/navigation"
+import { ArrowLeft, CalendarClock } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { ProofsFilters } from "@/components/proofs-filters"
+import { ProofsPagination, ProofsTable } from "@/components/proofs-table"
+import { parseProofListQuery } from "@/lib/proof-query"
+import { getSignedFileUrls, getTerm, listProofs } from "@/lib/supabase-actions"
+import { isTermOverdue, TERM_PROOF_TYPE_LABELS } from "@/lib/terms"
+import Component from "../../../add-proof-modal"
+
+interface TermPageProps {
+  params: Promise<{ id: string }>
+  searchParams: Promise<Record<string, string | string[] | undefined>>
+}
+
+export default async function TermPage({ params, searchParams }: TermPageProps) {
+  const { id } = await params
+  const termId = Number(id)
+
+  if (!Number.isInteger(termId) || termId <= 0) {
+    notFound()
+  }
+
+  const termResult = await getTerm(termId)
+  if (!termResult.term) {
+    notFound()
+  }
+
+  const term = termResult.term
+  const basePath = `/terms/${term.id}`
+  const query = { ...parseProofListQuery(await searchParams), termId: term.id }
+  const proofsResult = await listProofs(query)
+  const thumbnails = await getSignedFileUrls((proofsResult.proofs ?? []).flatMap((proof) => proof.thumbnailPath ?? []))
+
+  return (
+    <div className="min-h-screen bg-gray-100 py-10">
+      <div className="mx-auto max-w-6xl space-y-6 px-4">
+        <Button asChild variant="ghost" size="sm" className="-ml-3">
+          <Link href="/">
+            <ArrowLeft className="mr-2 size-4" />
+            All terms
+          </Link>
+        </Button>
+
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <h1 className="text-2xl font-semibold text-gray-900">{term.title}</h1>
+            {term.description && <p className="text-sm text-gray-600 whitespace-pre-line">{term.description}</p>}
+            <div className="flex flex-wrap items-center gap-3 text-xs text-gray-500">
+              {term.dueDate && (
+                <span className={`flex items-center gap-1 ${isTermOverdue(term) ? "text-red-600" : ""}`}>
+                  <CalendarClock className="size-3" />
+                  Due {new Date(term.dueDate).toLocaleDateString()}
+                </span>
+              )}
+              {term.requiredProofTypes.length > 0 && (
+                <span>Requires {term.requiredProofTypes.map((type) => TERM_PROOF_TYPE_LABELS[type]).join(", ")}</span>
+              )}
+            </div>
+          </div>
+          <Component termId={term.id} />
+        </div>
+
+        <div className="space-y-4">
+          <h2 className="font-semibold text-gray-900">Proofs ({proofsResult.total ?? 0})</h2>
+
+          <ProofsFilters query={query} basePath={basePath} />
+
+          {!proofsResult.success && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+              Failed to load proofs: {proofsResult.error}
+            </div>
+          )}
+
+          <ProofsTable
+            proofs={proofsResult.proofs ?? []}
+            query={query}
+            basePath={basePath}
+            thumbnailUrls={thumbnails.urls}
+          />
+          <ProofsPagination query={query} total={proofsResult.total ?? 0} basePath={basePath} />
+        </div>
+      </div>
+    </div>
+  )
+}
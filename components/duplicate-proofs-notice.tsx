@@ -0,0 +1,40 @@
+import Link from "next/link"
+import { AlertTriangle } from "lucide-react"
+import type { ProofDuplicate } from "@/lib/repositories"
+
+interface DuplicateProofsNoticeProps {
+  duplicates: ProofDuplicate[]
+  title: string
+  // Names to show for matching files instead of the name they were first submitted under
+  fileNames?: Record<string, string>
+}
+
+export function DuplicateProofsNotice({ duplicates, title, fileNames = {} }: DuplicateProofsNoticeProps) {
+  if (duplicates.length === 0) return null
+
+  return (
+    <div className="flex gap-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+      <AlertTriangle className="size-4 text-amber-600 flex-shrink-0 mt-0.5" />
+      <div className="space-y-1">
+        <p className="text-sm font-medium text-amber-800">{title}</p>
+        <ul className="space-y-0.5">
+          {duplicates.map((duplicate) => (
+            <li key={`${duplicate.proofId}-${duplicate.match}-${duplicate.sha256}`} className="text-sm text-amber-700">
+              {duplicate.match === "file"
+                ? `"${(duplicate.sha256 && fileNames[duplicate.sha256]) || duplicate.fileName}" is identical to a file in `
+                : "The proof link matches "}
+              <Link href={`/proofs/${duplicate.proofId}`} className="underline hover:text-amber-900">
+                proof #{duplicate.proofId}
+              </Link>{" "}
+              for{" "}
+              <Link href={`/terms/${duplicate.termId}`} className="underline hover:text-amber-900">
+                term #{duplicate.termId}
+              </Link>
+              , submitted {new Date(duplicate.createdAt).toLocaleDateString()}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  )
+}
@@ -2,49 +2,293 @@
 
 import type React from "react"
 
-import { useCallback } from "react"
-import { useDrop } from "react-dnd"
+import { useCallback, useEffect, useRef, useState } from "react"
+import { useDrag, useDrop } from "react-dnd"
 import { NativeTypes } from "react-dnd-html5-backend"
-import { Upload, FileImage, FileVideo, AlertCircle } from "lucide-react"
+import {
+  Upload,
+  FileImage,
+  FileVideo,
+  FileText,
+  AlertCircle,
+  GripVertical,
+  X,
+  Loader2,
+  ShieldCheck,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import {
+  canCompressImage,
+  compressImage,
+  DEFAULT_IMAGE_COMPRESSION,
+  type ImageCompressionOptions,
+} from "@/lib/image-compression"
+import {
+  canScrubMetadata,
+  getMetadataScrubbingPolicy,
+  scrubImageMetadata,
+  type MetadataScrubbingPolicy,
+} from "@/lib/metadata-scrubbing"
+import {
+  formatSizeLimit,
+  isAllowedFileType,
+  isPdfType,
+  MAX_ATTACHMENTS,
+  MAX_IMAGE_SIZE,
+  MAX_PDF_SIZE,
+  MAX_VIDEO_SIZE,
+  validateProofFile,
+} from "@/lib/validation"
 
 interface FileUploadZoneProps {
-  onFileChange: (file: File | undefined) => void
-  watchedFile: File | undefined
+  files: File[]
+  onFilesChange: (files: File[]) => void
   errors: any
   formatFileSize: (bytes: number) => string
+  // How oversized photos are shrunk to fit the image size limit
+  imageCompression?: ImageCompressionOptions
+  // Whether location and identifying tags are stripped from photos; defaults to the configured policy
+  metadataScrubbing?: MetadataScrubbingPolicy
 }
 
 interface DropResult {
   files: File[]
 }
 
-export function FileUploadZone({ onFileChange, watchedFile, errors, formatFileSize }: FileUploadZoneProps) {
-  const handleFileDrop = useCallback(
-    (item: DropResult) => {
-      if (item.files && item.files.length > 0) {
-        const file = item.files[0]
+interface FileRejection {
+  fileName: string
+  message: string
+}
+
+// Drag item type for reordering selected files
+const ATTACHMENT_ITEM = "proof-attachment"
+
+interface AttachmentDragItem {
+  index: number
+}
+
+// Same file picked twice (e.g. dropped after being selected) should only be attached once
+const isSameFile = (a: File, b: File) => a.name === b.name && a.size === b.size && a.lastModified === b.lastModified
+
+const getFileIcon = (file: File) => {
+  if (file.type.startsWith("image/")) {
+    return <FileImage className="size-5 text-blue-600" />
+  }
+  if (file.type.startsWith("video/")) {
+    return <FileVideo className="size-5 text-purple-600" />
+  }
+  if (isPdfType(file.type)) {
+    return <FileText className="size-5 text-red-600" />
+  }
+  return <Upload className="size-5 text-gray-400" />
+}
+
+interface AttachmentRowProps {
+  file: File
+  // Size before compression, for files that were shrunk to fit
+  originalSize?: number
+  // What the metadata scrubber removed from the file
+  scrubbedMetadata?: string[]
+  index: number
+  error?: string
+  onMove: (from: number, to: number) => void
+  onRemove: (index: number) => void
+  formatFileSize: (bytes: number) => string
+}
+
+function AttachmentRow({
+  file,
+  originalSize,
+  scrubbedMetadata,
+  index,
+  error,
+  onMove,
+  onRemove,
+  formatFileSize,
+}: AttachmentRowProps) {
+  const rowRef = useRef<HTMLLIElement>(null)
+
+  const [{ isDragging }, drag] = useDrag(
+    () => ({
+      type: ATTACHMENT_ITEM,
+      item: { index },
+      collect: (monitor) => ({
+        isDragging: monitor.isDragging(),
+      }),
+    }),
+    [index],
+  )
+
+  const [, drop] = useDrop(
+    () => ({
+      accept: ATTACHMENT_ITEM,
+      hover: (item: AttachmentDragItem, monitor) => {
+        if (!rowRef.current || item.index === index) return
+
+        // Only swap once the pointer crosses the middle of the row, to avoid flicker
+        const rect = rowRef.current.getBoundingClientRect()
+        const middleY = (rect.bottom - rect.top) / 2
+        const pointer = monitor.getClientOffset()
+        if (!pointer) return
+
+        const pointerY = pointer.y - rect.top
+        if (item.index < index && pointerY < middleY) return
+        if (item.index > index && pointerY > middleY) return
+
+        onMove(item.index, index)
+        item.index = index
+      },
+    }),
+    [index, onMove],
+  )
+
+  drag(drop(rowRef))
+
+  return (
+    <li
+      ref={rowRef}
+      className={`flex items-center justify-between gap-2 p-3 border rounded-lg cursor-move transition-opacity ${
+        error ? "bg-red-50 border-red-200" : "bg-green-50 border-green-200"
+      } ${isDragging ? "opacity-40" : ""}`}
+    >
+      <div className="flex items-center gap-2 min-w-0">
+        <GripVertical className="size-4 text-gray-400 flex-shrink-0" />
+        {getFileIcon(file)}
+        <div className="min-w-0">
+          <p className="text-sm text-gray-700 font-medium truncate">{file.name}</p>
+          {error ? (
+            <p className="text-xs text-red-600">{error}</p>
+          ) : (
+            index === 0 && <p className="text-xs text-gray-500">Primary file</p>
+          )}
+          {scrubbedMetadata && (
+            <p className="flex items-center gap-1 text-xs text-gray-500">
+              <ShieldCheck className="size-3 flex-shrink-0 text-green-600" />
+              Removed: {scrubbedMetadata.join(", ")}
+            </p>
+          )}
+        </div>
+      </div>
+      <div className="flex items-center gap-2 flex-shrink-0">
+        <span className="text-xs text-gray-500">
+          {originalSize !== undefined && (
+            <span className="line-through mr-1" title="Original size">
+              {formatFileSize(originalSize)}
+            </span>
+          )}
+          {formatFileSize(file.size)}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={() => onRemove(index)}
+          title={`Remove ${file.name}`}
+        >
+          <X className="size-4" />
+        </Button>
+      </div>
+    </li>
+  )
+}
+
+export function FileUploadZone({
+  files,
+  onFilesChange,
+  errors,
+  formatFileSize,
+  imageCompression = DEFAULT_IMAGE_COMPRESSION,
+  metadataScrubbing = getMetadataScrubbingPolicy(),
+}: FileUploadZoneProps) {
+  const [rejections, setRejections] = useState<FileRejection[]>([])
+  const [compressImages, setCompressImages] = useState(true)
+  const [scrubMetadata, setScrubMetadata] = useState(metadataScrubbing === "always" || metadataScrubbing === "opt-out")
+  const [compressingCount, setCompressingCount] = useState(0)
+  const dropZoneRef = useRef<HTMLDivElement>(null)
+
+  // Compressed or scrubbed files map back to the file the user picked, for de-duplication and size display
+  const originalsRef = useRef(new WeakMap<File, File>())
+  const scrubbedRef = useRef(new WeakMap<File, string[]>())
+
+  // Compression is async, so the list may have changed by the time it finishes
+  const filesRef = useRef(files)
+  useEffect(() => {
+    filesRef.current = files
+  }, [files])
+
+  const addFiles = useCallback(
+    async (incoming: File[]) => {
+      const accepted: File[] = []
+      const rejected: FileRejection[] = []
+      const isAlreadyAdded = (file: File) =>
+        [...filesRef.current, ...accepted].some((existing) =>
+          isSameFile(originalsRef.current.get(existing) ?? existing, file),
+        )
+
+      for (const file of incoming) {
+        if (isAlreadyAdded(file)) {
+          continue
+        }
+
+        let candidate = file
+        let message = validateProofFile(file)
+
+        // Photos that are only too big get shrunk rather than rejected
+        if (message && compressImages && canCompressImage(file) && file.size > MAX_IMAGE_SIZE) {
+          setCompressingCount((count) => count + 1)
+          const compressed = await compressImage(file, MAX_IMAGE_SIZE, imageCompression)
+          setCompressingCount((count) => count - 1)
 
-        // Validate file type
-        const isImage = file.type.startsWith("image/")
-        const isVideo = file.type.startsWith("video/")
+          if (compressed) {
+            originalsRef.current.set(compressed, file)
+            candidate = compressed
+            message = validateProofFile(compressed)
+          } else {
+            message = `${message}, even after compressing`
+          }
+        }
+
+        if (message) {
+          rejected.push({ fileName: file.name, message })
+          continue
+        }
 
-        if (!isImage && !isVideo) {
-          alert("Please upload only image or video files")
-          return
+        // Compressed photos carry over the original's tags, so they are scrubbed the same way
+        if (scrubMetadata && canScrubMetadata(candidate)) {
+          const scrubbed = await scrubImageMetadata(candidate)
+          if (scrubbed) {
+            originalsRef.current.set(scrubbed.file, file)
+            scrubbedRef.current.set(scrubbed.file, scrubbed.removed)
+            candidate = scrubbed.file
+          }
         }
 
-        // Validate file size
-        const maxSize = isImage ? 1 * 1024 * 1024 : 5 * 1024 * 1024 // 1MB for images, 5MB for videos
-        if (file.size > maxSize) {
-          alert(`File size must be less than ${isImage ? "1MB" : "5MB"}`)
-          return
+        if (filesRef.current.length + accepted.length >= MAX_ATTACHMENTS) {
+          rejected.push({ fileName: file.name, message: `You can attach up to ${MAX_ATTACHMENTS} files` })
+          continue
         }
 
-        onFileChange(file)
+        accepted.push(candidate)
+      }
+
+      setRejections(rejected)
+      if (accepted.length > 0) {
+        onFilesChange([...filesRef.current, ...accepted])
       }
     },
-    [onFileChange],
+    [onFilesChange, compressImages, imageCompression, scrubMetadata],
+  )
+
+  const handleFileDrop = useCallback(
+    (item: DropResult) => {
+      if (item.files && item.files.length > 0) {
+        addFiles(item.files)
+      }
+    },
+    [addFiles],
   )
 
   const [{ isOver, canDrop }, drop] = useDrop(
@@ -54,11 +298,7 @@ export function FileUploadZone({ onFileChange, watchedFile, errors, formatFileSi
       canDrop: (item: DropResult) => {
         if (!item.files || item.files.length === 0) return false
 
-        const file = item.files[0]
-        const isImage = file.type.startsWith("image/")
-        const isVideo = file.type.startsWith("video/")
-
-        return isImage || isVideo
+        return item.files.some((file) => isAllowedFileType(file.type))
       },
       collect: (monitor) => ({
         isOver: monitor.isOver(),
@@ -68,16 +308,46 @@ export function FileUploadZone({ onFileChange, watchedFile, errors, formatFileSi
     [handleFileDrop],
   )
 
+  drop(dropZoneRef)
+
   const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0]
-    onFileChange(file)
+    addFiles(Array.from(event.target.files ?? []))
+    // Allow selecting the same file again after removing it
+    event.target.value = ""
   }
 
+  // Scrubbing keeps the size, so only compressed files have a different original size to show
+  const getOriginalSize = (file: File) => {
+    const original = originalsRef.current.get(file)
+    return original && original.size !== file.size ? original.size : undefined
+  }
+
+  const handleMove = useCallback(
+    (from: number, to: number) => {
+      const reordered = [...files]
+      const [moved] = reordered.splice(from, 1)
+      reordered.splice(to, 0, moved)
+      onFilesChange(reordered)
+    },
+    [files, onFilesChange],
+  )
+
+  const handleRemove = useCallback(
+    (index: number) => {
+      onFilesChange(files.filter((_, i) => i !== index))
+    },
+    [files, onFilesChange],
+  )
+
+  // Schema errors come back per index for invalid files, or as a single message for the list
+  const fileErrors = Array.isArray(errors?.files) ? errors.files : []
+  const listError: string | undefined = Array.isArray(errors?.files) ? undefined : errors?.files?.message
+
   const getDropZoneClasses = () => {
     const baseClasses =
       "flex items-center justify-center w-full h-32 border-2 border-dashed rounded-lg cursor-pointer transition-all duration-200"
 
-    if (errors?.file) {
+    if (listError) {
       return `${baseClasses} border-red-300 bg-red-50`
     }
 
@@ -96,50 +366,45 @@ export function FileUploadZone({ onFileChange, watchedFile, errors, formatFileSi
     return `${baseClasses} border-gray-300 hover:bg-gray-50`
   }
 
-  const getFileIcon = (file: File) => {
-    if (file.type.startsWith("image/")) {
-      return <FileImage className="size-5 text-blue-600" />
-    }
-    if (file.type.startsWith("video/")) {
-      return <FileVideo className="size-5 text-purple-600" />
-    }
-    return <Upload className="size-5 text-gray-400" />
-  }
-
   return (
     <div className="space-y-2">
       <Label htmlFor="file-upload" className="text-sm font-medium text-gray-900">
         File Upload
       </Label>
 
-      <div ref={drop} className="relative">
-        <input id="file-upload" type="file" accept="image/*,video/*" onChange={handleInputChange} className="hidden" />
+      <div ref={dropZoneRef} className="relative">
+        <input
+          id="file-upload"
+          type="file"
+          accept="image/*,video/*,application/pdf"
+          multiple
+          onChange={handleInputChange}
+          className="hidden"
+        />
 
         <label htmlFor="file-upload" className={getDropZoneClasses()}>
           <div className="text-center p-4">
             {isOver && canDrop ? (
               <>
                 <Upload className="size-8 text-green-600 mx-auto mb-2 animate-bounce" />
-                <p className="text-sm text-green-700 font-medium">Drop file here to upload</p>
+                <p className="text-sm text-green-700 font-medium">Drop files here to upload</p>
               </>
             ) : isOver && !canDrop ? (
               <>
                 <AlertCircle className="size-8 text-red-600 mx-auto mb-2" />
                 <p className="text-sm text-red-700 font-medium">Invalid file type</p>
               </>
-            ) : watchedFile ? (
-              <>
-                {getFileIcon(watchedFile)}
-                <p className="text-sm text-gray-700 font-medium mt-2">{watchedFile.name}</p>
-                <p className="text-xs text-gray-500">Click to change file</p>
-              </>
             ) : (
               <>
                 <Upload className="size-8 text-gray-400 mx-auto mb-2" />
                 <p className="text-sm text-gray-600">
-                  <span className="font-medium">Click to upload</span> or drag and drop
+                  <span className="font-medium">{files.length > 0 ? "Add more files" : "Click to upload"}</span> or drag
+                  and drop
+                </p>
+                <p className="text-xs text-gray-500 mt-1">
+                  Images (max {formatSizeLimit(MAX_IMAGE_SIZE)}) • Videos (max {formatSizeLimit(MAX_VIDEO_SIZE)}) • PDFs
+                  (max {formatSizeLimit(MAX_PDF_SIZE)}) • Up to {MAX_ATTACHMENTS} files
                 </p>
-                <p className="text-xs text-gray-500 mt-1">Images (max 1MB) • Videos (max 5MB)</p>
               </>
             )}
           </div>
@@ -155,23 +420,70 @@ export function FileUploadZone({ onFileChange, watchedFile, errors, formatFileSi
         )}
       </div>
 
-      {/* File preview when selected */}
-      {watchedFile && !errors?.file && (
-        <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
-          <div className="flex items-center gap-2">
-            <div className="size-2 bg-green-500 rounded-full animate-pulse"></div>
-            {getFileIcon(watchedFile)}
-            <span className="text-sm text-gray-700 font-medium">{watchedFile.name}</span>
-          </div>
-          <span className="text-xs text-gray-500">{formatFileSize(watchedFile.size)}</span>
+      {/* Compression toggle */}
+      <div className="flex items-center justify-between gap-2">
+        <Label htmlFor="compress-images" className="text-xs font-normal text-gray-600">
+          Shrink photos over {formatSizeLimit(MAX_IMAGE_SIZE)} to fit instead of rejecting them
+        </Label>
+        <Switch id="compress-images" checked={compressImages} onCheckedChange={setCompressImages} />
+      </div>
+
+      {/* Metadata scrubbing toggle, or a note when the policy leaves no choice */}
+      {(metadataScrubbing === "opt-in" || metadataScrubbing === "opt-out") && (
+        <div className="flex items-center justify-between gap-2">
+          <Label htmlFor="scrub-metadata" className="text-xs font-normal text-gray-600">
+            Remove location and device serial numbers from photos before uploading
+          </Label>
+          <Switch id="scrub-metadata" checked={scrubMetadata} onCheckedChange={setScrubMetadata} />
+        </div>
+      )}
+      {metadataScrubbing === "always" && (
+        <p className="text-xs text-gray-600">
+          Location and device serial numbers are removed from photos before uploading.
+        </p>
+      )}
+
+      {compressingCount > 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <Loader2 className="size-4 animate-spin" />
+          Compressing {compressingCount === 1 ? "photo" : `${compressingCount} photos`}...
         </div>
       )}
 
+      {/* Selected files, drag to reorder */}
+      {files.length > 0 && (
+        <ul className="space-y-2">
+          {files.map((file, index) => (
+            <AttachmentRow
+              key={`${file.name}-${file.size}-${file.lastModified}`}
+              file={file}
+              originalSize={getOriginalSize(file)}
+              scrubbedMetadata={scrubbedRef.current.get(file)}
+              index={index}
+              error={fileErrors[index]?.message}
+              onMove={handleMove}
+              onRemove={handleRemove}
+              formatFileSize={formatFileSize}
+            />
+          ))}
+        </ul>
+      )}
+
+      {/* Files that were not added */}
+      {rejections.map((rejection) => (
+        <div key={rejection.fileName} className="flex items-center gap-1 text-sm text-red-600">
+          <AlertCircle className="size-4 flex-shrink-0" />
+          <span className="truncate">
+            {rejection.fileName}: {rejection.message}
+          </span>
+        </div>
+      ))}
+
       {/* Error display */}
-      {errors?.file && (
+      {listError && (
         <div className="flex items-center gap-1 text-sm text-red-600">
           <AlertCircle className="size-4" />
-          {errors.file.message}
+          {listError}
         </div>
       )}
     </div>
@@ -0,0 +1,91 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ExternalLink } from "lucide-react"
+import { Skeleton } from "@/components/ui/skeleton"
+import type { LinkPreview } from "@/lib/link-preview"
+import { getLinkPreview } from "@/lib/supabase-actions"
+
+interface LinkPreviewCardProps {
+  proofId: number
+  proofLink: string
+  // Cached preview from the proof record; without one the preview is requested on mount
+  preview?: LinkPreview
+}
+
+const getHostname = (link: string) => {
+  try {
+    return new URL(link).hostname.replace(/^www\./, "")
+  } catch {
+    return link
+  }
+}
+
+export function LinkPreviewCard({ proofId, proofLink, preview: initialPreview }: LinkPreviewCardProps) {
+  const [preview, setPreview] = useState(initialPreview)
+  const [isLoading, setIsLoading] = useState(!initialPreview)
+
+  useEffect(() => {
+    if (initialPreview) return
+
+    let isCurrent = true
+    setIsLoading(true)
+
+    getLinkPreview(proofId)
+      .then((result) => {
+        if (isCurrent) setPreview(result.preview)
+      })
+      .catch((error) => {
+        // Without a preview the card falls back to the plain link
+        console.error("Link preview failed:", error)
+        if (isCurrent) setPreview(undefined)
+      })
+      .finally(() => {
+        if (isCurrent) setIsLoading(false)
+      })
+
+    return () => {
+      isCurrent = false
+    }
+  }, [proofId, initialPreview])
+
+  if (isLoading) {
+    return (
+      <div className="flex gap-3 rounded-lg border p-3">
+        <Skeleton className="size-16 shrink-0" />
+        <div className="flex-1 space-y-2">
+          <Skeleton className="h-3 w-1/3" />
+          <Skeleton className="h-4 w-2/3" />
+          <Skeleton className="h-3 w-full" />
+        </div>
+      </div>
+    )
+  }
+
+  // The submitted link is what gets opened; the preview's URL may be a canonical variant of it
+  return (
+    <a
+      href={proofLink}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex gap-3 rounded-lg border bg-white p-3 transition-colors hover:bg-gray-50"
+    >
+      {preview?.imageUrl && (
+        <img
+          src={preview.imageUrl}
+          alt=""
+          referrerPolicy="no-referrer"
+          className="size-16 shrink-0 rounded border bg-gray-50 object-cover"
+        />
+      )}
+      <div className="min-w-0 flex-1">
+        <p className="flex items-center gap-1 text-xs text-gray-500">
+          <ExternalLink className="size-3 shrink-0" />
+          <span className="truncate">{preview?.siteName ?? getHostname(preview?.url ?? proofLink)}</span>
+        </p>
+        <p className="truncate text-sm font-medium text-gray-900">{preview?.title ?? proofLink}</p>
+        {preview?.description && <p className="line-clamp-2 text-xs text-gray-600">{preview.description}</p>}
+      </div>
+    </a>
+  )
+}
@@ -0,0 +1,65 @@
+"use client"
+
+import { useState } from "react"
+import { Archive, CheckCircle2, Loader2, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { useSignedUrl } from "@/hooks/use-signed-url"
+import { isReachable, type LinkCheck } from "@/lib/link-archive"
+
+interface LinkSnapshotProps {
+  check: LinkCheck
+  snapshotPath?: string
+}
+
+function describeCheck(check: LinkCheck) {
+  if (isReachable(check)) return `Reachable · ${check.status}`
+  if (check.status !== undefined) return `Returned ${check.status}`
+  return `Unreachable${check.error ? `: ${check.error}` : ""}`
+}
+
+// How the proof link responded when it was submitted, with the page as archived then
+export function LinkSnapshot({ check, snapshotPath }: LinkSnapshotProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const { url, error, isLoading } = useSignedUrl(isOpen ? snapshotPath : undefined)
+  const reachable = isReachable(check)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-600">
+        <span className={`flex items-center gap-1 font-medium ${reachable ? "text-green-700" : "text-red-700"}`}>
+          {reachable ? <CheckCircle2 className="size-3.5" /> : <XCircle className="size-3.5" />}
+          {describeCheck(check)}
+        </span>
+        <span>Checked {new Date(check.checkedAt).toLocaleString()}</span>
+        {check.finalUrl && <span className="break-all">Redirected to {check.finalUrl}</span>}
+        {snapshotPath && (
+          <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => setIsOpen((open) => !open)}>
+            <Archive className="mr-1 size-3.5" />
+            {isOpen ? "Hide archived snapshot" : "View archived snapshot"}
+          </Button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="h-[60vh] overflow-hidden rounded-lg border bg-white">
+          {isLoading && (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="size-6 animate-spin text-gray-400" />
+            </div>
+          )}
+          {error && <p className="p-4 text-sm text-red-600">{error}</p>}
+          {/* No allow-scripts or allow-same-origin: the page is inert and can't reach this app */}
+          {url && (
+            <iframe
+              src={url}
+              title="Archived snapshot of the proof link"
+              sandbox="allow-popups allow-popups-to-escape-sandbox"
+              referrerPolicy="no-referrer"
+              className="size-full"
+            />
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
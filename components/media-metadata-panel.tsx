@@ -0,0 +1,86 @@
+import type React from "react"
+import type { MediaMetadata } from "@/lib/exif"
+
+const ORIENTATION_LABELS: Record<number, string> = {
+  1: "Normal",
+  2: "Mirrored horizontally",
+  3: "Rotated 180°",
+  4: "Mirrored vertically",
+  5: "Mirrored, rotated 90° counter-clockwise",
+  6: "Rotated 90° clockwise",
+  7: "Mirrored, rotated 90° clockwise",
+  8: "Rotated 90° counter-clockwise",
+}
+
+// Shows the time as the camera's clock read it rather than converting it to the viewer's time zone
+function formatCaptureTime(capturedAt: string) {
+  const date = new Date(`${capturedAt.slice(0, 19)}Z`)
+  if (Number.isNaN(date.getTime())) return capturedAt
+
+  const formatted = date.toLocaleString(undefined, { timeZone: "UTC", dateStyle: "medium", timeStyle: "medium" })
+  const offset = capturedAt.slice(19)
+  return offset ? `${formatted} (UTC${offset === "Z" ? "" : offset})` : formatted
+}
+
+// Makers often repeat their name in the model, e.g. "Canon" / "Canon EOS R5"
+function formatCamera(make?: string, model?: string) {
+  if (make && model?.toLowerCase().startsWith(make.toLowerCase())) return model
+  return [make, model].filter(Boolean).join(" ") || undefined
+}
+
+interface MediaMetadataPanelProps {
+  metadata?: MediaMetadata
+}
+
+export function MediaMetadataPanel({ metadata }: MediaMetadataPanelProps) {
+  const rows: { label: string; value: React.ReactNode }[] = []
+
+  if (metadata?.capturedAt) rows.push({ label: "Captured", value: formatCaptureTime(metadata.capturedAt) })
+  const camera = formatCamera(metadata?.cameraMake, metadata?.cameraModel)
+  if (camera) rows.push({ label: "Camera", value: camera })
+  if (metadata?.lens) rows.push({ label: "Lens", value: metadata.lens })
+  if (metadata?.software) rows.push({ label: "Software", value: metadata.software })
+  if (metadata?.width && metadata.height) {
+    rows.push({ label: "Dimensions", value: `${metadata.width} × ${metadata.height} px` })
+  }
+  if (metadata?.orientation) {
+    rows.push({ label: "Orientation", value: ORIENTATION_LABELS[metadata.orientation] ?? metadata.orientation })
+  }
+  if (metadata?.gps) {
+    const { latitude, longitude, altitude } = metadata.gps
+    rows.push({
+      label: "Location",
+      value: (
+        <>
+          <a
+            href={`https://www.openstreetmap.org/?mlat=${latitude}&mlon=${longitude}#map=16/${latitude}/${longitude}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-600 hover:underline"
+          >
+            {latitude.toFixed(5)}, {longitude.toFixed(5)}
+          </a>
+          {altitude !== undefined && <span className="block text-gray-500">{altitude} m altitude</span>}
+        </>
+      ),
+    })
+  }
+
+  return (
+    <aside className="w-72 shrink-0 overflow-y-auto border-l bg-white p-4 text-sm">
+      <h4 className="mb-3 font-semibold text-gray-900">Metadata</h4>
+      {rows.length === 0 ? (
+        <p className="text-gray-500">No capture metadata was found in this file.</p>
+      ) : (
+        <dl className="space-y-3">
+          {rows.map((row) => (
+            <div key={row.label}>
+              <dt className="text-xs font-medium uppercase tracking-wide text-gray-500">{row.label}</dt>
+              <dd className="break-words text-gray-900">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+    </aside>
+  )
+}
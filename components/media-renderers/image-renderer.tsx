@@ -0,0 +1,44 @@
+"use client"
+
+import { useImperativeHandle, useRef } from "react"
+import { cn } from "@/lib/utils"
+import type { MediaRendererProps } from "./types"
+
+export default function ImageRenderer({ url, fileName, view, controllerRef, onLoad, onError }: MediaRendererProps) {
+  const imageRef = useRef<HTMLImageElement>(null)
+
+  // Layout sizes ignore the transform, so they describe the image as fitted
+  useImperativeHandle(
+    controllerRef,
+    () => ({
+      getActualSizeScale() {
+        const image = imageRef.current
+        return image?.naturalWidth && image.offsetWidth ? image.naturalWidth / image.offsetWidth : undefined
+      },
+      getContentSize() {
+        const image = imageRef.current
+        return image ? { width: image.offsetWidth, height: image.offsetHeight } : undefined
+      },
+    }),
+    [],
+  )
+
+  return (
+    <img
+      ref={imageRef}
+      src={url}
+      alt={fileName}
+      className={cn(
+        "max-w-full max-h-full object-contain select-none",
+        view.smooth && "transition-transform duration-200",
+      )}
+      style={{
+        transform: `translate(${view.pan.x}px, ${view.pan.y}px) scale(${view.scale}) rotate(${view.rotation}deg)`,
+        transformOrigin: "center center",
+      }}
+      onLoad={onLoad}
+      onError={onError}
+      draggable={false}
+    />
+  )
+}
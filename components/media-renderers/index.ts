@@ -0,0 +1,68 @@
+import { lazy, type ComponentType } from "react"
+import type { MediaRendererDefinition, MediaRendererProps } from "./types"
+
+export type {
+  MediaRendererCapabilities,
+  MediaRendererController,
+  MediaRendererDefinition,
+  MediaRendererProps,
+  MediaViewState,
+} from "./types"
+export { RendererToolbar } from "./renderer-toolbar"
+
+// Checked in order; the first renderer that accepts a file's type or extension shows it
+export const MEDIA_RENDERERS: MediaRendererDefinition[] = [
+  {
+    id: "image",
+    mimeTypes: ["image/*"],
+    extensions: ["jpg", "jpeg", "png", "gif", "webp", "avif", "bmp", "svg"],
+    capabilities: { zoom: true, pan: true, rotate: true, seek: false },
+    load: () => import("./image-renderer"),
+  },
+  {
+    id: "video",
+    mimeTypes: ["video/*"],
+    extensions: ["mp4", "m4v", "webm", "mov", "ogv"],
+    capabilities: { zoom: false, pan: false, rotate: false, seek: true },
+    usesPoster: true,
+    load: () => import("./video-renderer"),
+  },
+  {
+    id: "pdf",
+    mimeTypes: ["application/pdf"],
+    extensions: ["pdf"],
+    // Zoomed pages scroll rather than pan
+    capabilities: { zoom: true, pan: false, rotate: true, seek: false },
+    load: () => import("./pdf-renderer"),
+  },
+]
+
+export const NO_CAPABILITIES = { zoom: false, pan: false, rotate: false, seek: false }
+
+const matchesMimeType = (pattern: string, type: string) =>
+  pattern.endsWith("/*") ? type.startsWith(pattern.slice(0, -1)) : pattern === type
+
+export function findMediaRenderer(fileType: string, fileName = "") {
+  const type = fileType.split(";")[0].trim().toLowerCase()
+  const byType = MEDIA_RENDERERS.find((renderer) =>
+    renderer.mimeTypes.some((pattern) => matchesMimeType(pattern, type)),
+  )
+  if (byType) return byType
+
+  // Only fall back to the extension when the type says nothing about the content
+  if (type && type !== "application/octet-stream") return undefined
+  const extension = fileName.includes(".") ? fileName.split(".").pop()!.toLowerCase() : ""
+  return MEDIA_RENDERERS.find((renderer) => renderer.extensions.includes(extension))
+}
+
+const lazyRenderers = new Map<string, ComponentType<MediaRendererProps>>()
+
+// One lazy component per renderer, so switching between files doesn't remount or reload it
+export function getRendererComponent(renderer: MediaRendererDefinition) {
+  let component = lazyRenderers.get(renderer.id)
+  if (!component) {
+    component = lazy(renderer.load)
+    lazyRenderers.set(renderer.id, component)
+  }
+  return component
+}
@@ -0,0 +1,503 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useImperativeHandle, useRef, useState } from "react"
+import { ChevronDown, ChevronLeft, ChevronRight, ChevronUp, Search } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { isRenderingCancelled, openPdf, type PDFDocumentProxy, type PDFPageProxy, type PdfTextItem } from "@/lib/pdf"
+import { cn } from "@/lib/utils"
+import { RendererToolbar } from "./renderer-toolbar"
+import type { MediaRendererProps } from "./types"
+
+const THUMBNAIL_WIDTH = 96
+// Space left around the page when it's fitted into the viewer
+const PAGE_MARGIN = 16
+const SEARCH_DEBOUNCE_MS = 250
+// PDF units are points (1/72 in); a page shown at its actual size uses 96 CSS pixels per inch
+const CSS_PX_PER_PDF_POINT = 96 / 72
+
+interface SearchMatch {
+  pageNumber: number
+  // Text runs the match covers; a match can span several
+  itemIndexes: number[]
+}
+
+type PageText = Map<number, Promise<PdfTextItem[]>>
+
+const getRotation = (page: PDFPageProxy, rotation: number) => (page.rotate + rotation) % 360
+
+function getPageText(document: PDFDocumentProxy, cache: PageText, pageNumber: number) {
+  let text = cache.get(pageNumber)
+  if (!text) {
+    text = document
+      .getPage(pageNumber)
+      .then((page) => page.getTextContent())
+      .then((content) => content.items.filter((item): item is PdfTextItem => "str" in item))
+    cache.set(pageNumber, text)
+  }
+  return text
+}
+
+// Finds the query in a page's text. Runs are joined first so matches spanning runs are found too.
+function findMatches(items: PdfTextItem[], query: string, pageNumber: number): SearchMatch[] {
+  const starts: number[] = []
+  let text = ""
+  for (const item of items) {
+    starts.push(text.length)
+    text += item.str + (item.hasEOL ? " " : "")
+  }
+
+  const haystack = text.toLowerCase()
+  const needle = query.toLowerCase()
+  const matches: SearchMatch[] = []
+
+  for (let index = haystack.indexOf(needle); index !== -1; index = haystack.indexOf(needle, index + needle.length)) {
+    const end = index + needle.length
+    const itemIndexes = items.flatMap((item, itemIndex) =>
+      starts[itemIndex] < end && starts[itemIndex] + item.str.length > index ? [itemIndex] : [],
+    )
+    matches.push({ pageNumber, itemIndexes })
+  }
+  return matches
+}
+
+interface PdfThumbnailProps {
+  document: PDFDocumentProxy
+  pageNumber: number
+  rotation: number
+  isActive: boolean
+  onSelect: (pageNumber: number) => void
+}
+
+// Rendered once scrolled into view, so long documents don't render every page up front
+function PdfThumbnail({ document, pageNumber, rotation, isActive, onSelect }: PdfThumbnailProps) {
+  const buttonRef = useRef<HTMLButtonElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [isInView, setIsInView] = useState(false)
+
+  useEffect(() => {
+    const button = buttonRef.current
+    if (!button) return
+
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsInView(true)
+    })
+    observer.observe(button)
+    return () => observer.disconnect()
+  }, [])
+
+  useEffect(() => {
+    if (isActive) buttonRef.current?.scrollIntoView({ block: "nearest" })
+  }, [isActive])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!isInView || !canvas) return
+
+    let cancelled = false
+    let task: ReturnType<PDFPageProxy["render"]> | undefined
+
+    document.getPage(pageNumber).then((page) => {
+      if (cancelled) return
+      const pageRotation = getRotation(page, rotation)
+      const viewport = page.getViewport({
+        scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1, rotation: pageRotation }).width,
+        rotation: pageRotation,
+      })
+      canvas.width = Math.round(viewport.width)
+      canvas.height = Math.round(viewport.height)
+      task = page.render({ canvas, viewport })
+      task.promise.catch((error) => {
+        if (!isRenderingCancelled(error)) console.error("Failed to render PDF thumbnail:", error)
+      })
+    })
+
+    return () => {
+      cancelled = true
+      task?.cancel()
+    }
+  }, [document, pageNumber, rotation, isInView])
+
+  return (
+    <button
+      ref={buttonRef}
+      type="button"
+      onClick={() => onSelect(pageNumber)}
+      className={cn(
+        "block w-full rounded border-2 p-1 text-center",
+        isActive ? "border-blue-600" : "border-transparent hover:border-gray-300",
+      )}
+      title={`Page ${pageNumber}`}
+    >
+      <canvas ref={canvasRef} className="mx-auto min-h-16 w-full bg-white shadow-sm" />
+      <span className="text-xs text-gray-600">{pageNumber}</span>
+    </button>
+  )
+}
+
+export default function PdfRenderer({
+  url,
+  fileName,
+  view,
+  controllerRef,
+  toolbarSlot,
+  onLoad,
+  onError,
+}: MediaRendererProps) {
+  const [document, setDocument] = useState<PDFDocumentProxy>()
+  const [page, setPage] = useState<PDFPageProxy>()
+  const [pageNumber, setPageNumber] = useState(1)
+  const [pageInput, setPageInput] = useState("1")
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const [highlights, setHighlights] = useState<{ rect: number[]; isActive: boolean }[]>([])
+
+  const [query, setQuery] = useState("")
+  const [matches, setMatches] = useState<SearchMatch[]>([])
+  const [activeMatch, setActiveMatch] = useState(0)
+  const [isSearching, setIsSearching] = useState(false)
+
+  const scrollRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const textCacheRef = useRef<PageText>(new Map())
+  const hasLoadedRef = useRef(false)
+
+  const pageCount = document?.numPages ?? 0
+
+  // A new URL means the previous one failed, so the document is opened again from it
+  useEffect(() => {
+    let cancelled = false
+    let opened: PDFDocumentProxy | undefined
+
+    openPdf(url).then(
+      (result) => {
+        if (cancelled) {
+          result.destroy()
+          return
+        }
+        opened = result
+        textCacheRef.current = new Map()
+        hasLoadedRef.current = false
+        setPage(undefined)
+        setPageNumber((current) => Math.min(current, result.numPages))
+        setDocument(result)
+      },
+      (error) => {
+        if (cancelled) return
+        console.error("Failed to open PDF:", error)
+        onError()
+      },
+    )
+
+    return () => {
+      cancelled = true
+      opened?.destroy()
+    }
+  }, [url, onError])
+
+  useEffect(() => {
+    if (!document) return
+    let cancelled = false
+
+    document.getPage(pageNumber).then(
+      (result) => {
+        if (!cancelled) setPage(result)
+      },
+      (error) => {
+        if (cancelled) return
+        console.error("Failed to load PDF page:", error)
+        onError()
+      },
+    )
+
+    return () => {
+      cancelled = true
+    }
+  }, [document, pageNumber, onError])
+
+  useEffect(() => setPageInput(String(pageNumber)), [pageNumber])
+
+  useEffect(() => {
+    const element = scrollRef.current
+    if (!element) return
+
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height })
+    })
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  // The page is fitted to the viewer at 100%; the viewer's zoom scales it from there
+  const rotation = page ? getRotation(page, view.rotation) : 0
+  const unscaled = page?.getViewport({ scale: 1, rotation })
+  const fitScale =
+    unscaled && size.width > 0
+      ? Math.min((size.width - PAGE_MARGIN * 2) / unscaled.width, (size.height - PAGE_MARGIN * 2) / unscaled.height)
+      : 0
+  const scale = Math.max(fitScale, 0.05) * view.scale
+
+  useImperativeHandle(
+    controllerRef,
+    () => ({
+      getActualSizeScale: () => (fitScale > 0 ? CSS_PX_PER_PDF_POINT / fitScale : undefined),
+    }),
+    [fitScale],
+  )
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!page || !canvas || fitScale <= 0) return
+
+    const viewport = page.getViewport({ scale, rotation })
+    const pixelRatio = window.devicePixelRatio || 1
+    canvas.width = Math.floor(viewport.width * pixelRatio)
+    canvas.height = Math.floor(viewport.height * pixelRatio)
+    canvas.style.width = `${Math.floor(viewport.width)}px`
+    canvas.style.height = `${Math.floor(viewport.height)}px`
+
+    const task = page.render({
+      canvas,
+      viewport,
+      transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0],
+    })
+    task.promise.then(
+      () => {
+        if (!hasLoadedRef.current) {
+          hasLoadedRef.current = true
+          onLoad()
+        }
+      },
+      (error) => {
+        if (!isRenderingCancelled(error)) console.error("Failed to render PDF page:", error)
+      },
+    )
+
+    return () => task.cancel()
+  }, [page, scale, rotation, fitScale, onLoad])
+
+  // Searches every page once typing pauses, keeping the text of each page for later searches
+  useEffect(() => {
+    const trimmed = query.trim()
+    setActiveMatch(0)
+    if (!document || !trimmed) {
+      setMatches([])
+      setIsSearching(false)
+      return
+    }
+
+    let cancelled = false
+    setIsSearching(true)
+
+    const timer = window.setTimeout(async () => {
+      const found: SearchMatch[] = []
+      try {
+        for (let number = 1; number <= document.numPages && !cancelled; number++) {
+          found.push(...findMatches(await getPageText(document, textCacheRef.current, number), trimmed, number))
+        }
+      } catch (error) {
+        console.error("Failed to search PDF:", error)
+      }
+      if (cancelled) return
+      setMatches(found)
+      setIsSearching(false)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      window.clearTimeout(timer)
+    }
+  }, [document, query])
+
+  const goToMatch = useCallback(
+    (index: number) => {
+      if (matches.length === 0) return
+      const next = (index + matches.length) % matches.length
+      setActiveMatch(next)
+      setPageNumber(matches[next].pageNumber)
+    },
+    [matches],
+  )
+
+  // Jump to the first match once a search completes
+  useEffect(() => {
+    if (matches.length > 0) setPageNumber(matches[0].pageNumber)
+  }, [matches])
+
+  // Outlines the text runs of every match on the page, the active match more strongly
+  useEffect(() => {
+    const onPage = matches
+      .map((match, index) => ({ match, index }))
+      .filter(({ match }) => match.pageNumber === pageNumber)
+    if (!document || !page || onPage.length === 0 || fitScale <= 0) {
+      setHighlights([])
+      return
+    }
+
+    let cancelled = false
+    getPageText(document, textCacheRef.current, pageNumber).then((items) => {
+      if (cancelled) return
+      const viewport = page.getViewport({ scale, rotation })
+
+      setHighlights(
+        onPage.flatMap(({ match, index }) =>
+          match.itemIndexes.map((itemIndex) => {
+            const item = items[itemIndex]
+            const [x, y] = [item.transform[4], item.transform[5]]
+            const [x1, y1, x2, y2] = viewport.convertToViewportRectangle([x, y, x + item.width, y + item.height])
+            return {
+              rect: [Math.min(x1, x2), Math.min(y1, y2), Math.abs(x2 - x1), Math.abs(y2 - y1)],
+              isActive: index === activeMatch,
+            }
+          }),
+        ),
+      )
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [document, page, pageNumber, matches, activeMatch, scale, rotation, fitScale])
+
+  const goToPage = useCallback(
+    (number: number) => {
+      if (pageCount > 0) setPageNumber(Math.min(Math.max(Math.round(number), 1), pageCount))
+    },
+    [pageCount],
+  )
+
+  const commitPageInput = () => {
+    const number = Number(pageInput)
+    if (Number.isFinite(number) && pageInput.trim()) {
+      goToPage(number)
+    } else {
+      setPageInput(String(pageNumber))
+    }
+  }
+
+  const handleSearchKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== "Enter") return
+    event.preventDefault()
+    goToMatch(event.shiftKey ? activeMatch - 1 : activeMatch + 1)
+  }
+
+  const searchStatus = isSearching
+    ? "Searching…"
+    : matches.length > 0
+      ? `${activeMatch + 1} of ${matches.length}`
+      : "No matches"
+
+  return (
+    <div className="absolute inset-0 flex">
+      <RendererToolbar slot={toolbarSlot}>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goToPage(pageNumber - 1)}
+          disabled={pageNumber <= 1}
+          title="Previous Page"
+        >
+          <ChevronLeft className="size-4" />
+        </Button>
+        <div className="flex items-center gap-1 text-sm text-gray-600">
+          <Input
+            value={pageInput}
+            onChange={(event) => setPageInput(event.target.value)}
+            onBlur={commitPageInput}
+            onKeyDown={(event) => {
+              if (event.key !== "Enter") return
+              event.preventDefault()
+              commitPageInput()
+            }}
+            inputMode="numeric"
+            aria-label="Page number"
+            className="h-8 w-12 px-1 text-center"
+          />
+          <span className="whitespace-nowrap font-mono">/ {pageCount || "–"}</span>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => goToPage(pageNumber + 1)}
+          disabled={pageNumber >= pageCount}
+          title="Next Page"
+        >
+          <ChevronRight className="size-4" />
+        </Button>
+        <div className="w-px h-6 bg-gray-300 mx-2" />
+        <div className="relative">
+          <Search className="absolute left-2 top-1/2 size-3.5 -translate-y-1/2 text-gray-400" />
+          <Input
+            type="search"
+            value={query}
+            onChange={(event) => setQuery(event.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            placeholder="Search"
+            aria-label={`Search ${fileName}`}
+            className="h-8 w-36 pl-7"
+          />
+        </div>
+        {query.trim() && (
+          <>
+            <span className="whitespace-nowrap text-xs text-gray-500" aria-live="polite">
+              {searchStatus}
+            </span>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToMatch(activeMatch - 1)}
+              disabled={matches.length === 0}
+              title="Previous Match"
+            >
+              <ChevronUp className="size-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => goToMatch(activeMatch + 1)}
+              disabled={matches.length === 0}
+              title="Next Match"
+            >
+              <ChevronDown className="size-4" />
+            </Button>
+          </>
+        )}
+        <div className="w-px h-6 bg-gray-300 mx-2" />
+      </RendererToolbar>
+
+      {document && pageCount > 1 && (
+        <div className="hidden w-32 shrink-0 space-y-2 overflow-y-auto border-r bg-gray-100 p-2 sm:block">
+          {Array.from({ length: pageCount }, (_, index) => (
+            <PdfThumbnail
+              key={index + 1}
+              document={document}
+              pageNumber={index + 1}
+              rotation={view.rotation}
+              isActive={index + 1 === pageNumber}
+              onSelect={goToPage}
+            />
+          ))}
+        </div>
+      )}
+
+      <div ref={scrollRef} className="flex-1 overflow-auto">
+        <div className="flex min-h-full min-w-fit items-center justify-center" style={{ padding: PAGE_MARGIN }}>
+          <div className="relative bg-white shadow">
+            <canvas ref={canvasRef} className="block" />
+            {highlights.map(({ rect: [left, top, width, height], isActive }, index) => (
+              <div
+                key={index}
+                className={cn(
+                  "pointer-events-none absolute rounded-sm",
+                  isActive ? "bg-orange-400/50" : "bg-yellow-300/40",
+                )}
+                style={{ left, top, width, height }}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,14 @@
+"use client"
+
+import type { ReactNode } from "react"
+import { createPortal } from "react-dom"
+
+interface RendererToolbarProps {
+  slot: HTMLElement | null
+  children: ReactNode
+}
+
+// Renders a renderer's own controls into the viewer's header, next to the shared ones
+export function RendererToolbar({ slot, children }: RendererToolbarProps) {
+  return slot ? createPortal(children, slot) : null
+}
@@ -0,0 +1,57 @@
+import type { ComponentType, RefObject } from "react"
+
+// What MediaViewer offers around a renderer. Zoom brings the zoom buttons and gestures, pan
+// drag-to-pan once zoomed in, rotate the rotate button and seek the skip buttons, which call the
+// renderer's controller.
+export interface MediaRendererCapabilities {
+  zoom: boolean
+  pan: boolean
+  rotate: boolean
+  seek: boolean
+}
+
+export interface MediaViewState {
+  scale: number
+  // Degrees clockwise, a multiple of 90
+  rotation: number
+  // Offset in px of the content's center from the container's, applied before scale and rotation
+  pan: { x: number; y: number }
+  // Whether to animate to this view, as for the zoom buttons; off while following a gesture
+  smooth: boolean
+}
+
+// Imperative hooks a renderer exposes for the viewer's toolbar and zoom gestures
+export interface MediaRendererController {
+  seekBy?(seconds: number): void
+  // Scale at which the content shows at its natural size, for the double-click toggle
+  getActualSizeScale?(): number | undefined
+  // Layout size of the fitted content, which bounds how far zoomed content can be panned
+  getContentSize?(): { width: number; height: number } | undefined
+}
+
+export interface MediaRendererProps {
+  // Signed URL of the file; it only changes after onError, when the viewer retries with a fresh one
+  url: string
+  posterUrl?: string
+  fileName: string
+  fileType: string
+  view: MediaViewState
+  controllerRef: RefObject<MediaRendererController | null>
+  // Element in the viewer's header where renderers can portal their own controls, see RendererToolbar
+  toolbarSlot: HTMLElement | null
+  onLoad(): void
+  onError(): void
+}
+
+export interface MediaRendererDefinition {
+  id: string
+  // Exact types or wildcards such as "image/*"
+  mimeTypes: string[]
+  // Lowercase, without the dot; used when the stored type is missing or generic
+  extensions: string[]
+  capabilities: MediaRendererCapabilities
+  // Whether the renderer shows the file's thumbnail as a poster
+  usesPoster?: boolean
+  // Renderers are code-split and only loaded once a file of their type is shown
+  load(): Promise<{ default: ComponentType<MediaRendererProps> }>
+}
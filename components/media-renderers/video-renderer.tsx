@@ -0,0 +1,56 @@
+"use client"
+
+import { useCallback, useImperativeHandle, useRef } from "react"
+import type { MediaRendererProps } from "./types"
+
+export default function VideoRenderer({ url, posterUrl, controllerRef, onLoad, onError }: MediaRendererProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  // Where playback was when the URL failed, so the retry picks up from there
+  const resumeAtRef = useRef<{ time: number; playing: boolean } | null>(null)
+
+  useImperativeHandle(
+    controllerRef,
+    () => ({
+      seekBy(seconds) {
+        const video = videoRef.current
+        if (!video) return
+        const end = Number.isFinite(video.duration) ? video.duration : Number.POSITIVE_INFINITY
+        video.currentTime = Math.min(Math.max(video.currentTime + seconds, 0), end)
+      },
+    }),
+    [],
+  )
+
+  const handleLoadedData = useCallback(() => {
+    const video = videoRef.current
+    const resumeAt = resumeAtRef.current
+    if (video && resumeAt) {
+      resumeAtRef.current = null
+      video.currentTime = resumeAt.time
+      if (resumeAt.playing) video.play().catch(() => undefined)
+    }
+    onLoad()
+  }, [onLoad])
+
+  const handleError = useCallback(() => {
+    const video = videoRef.current
+    if (video && video.currentTime > 0) {
+      resumeAtRef.current = { time: video.currentTime, playing: !video.paused }
+    }
+    onError()
+  }, [onError])
+
+  return (
+    <video
+      ref={videoRef}
+      src={url}
+      poster={posterUrl}
+      controls
+      className="max-w-full max-h-full"
+      onLoadedData={handleLoadedData}
+      onError={handleError}
+    >
+      Your browser does not support the video tag.
+    </video>
+  )
+}
@@ -2,151 +2,270 @@
 
 import type React from "react"
 
-import { useState, useCallback, useRef } from "react"
-import { X, Download, ZoomIn, ZoomOut, RotateCw } from "lucide-react"
+import { Suspense, useState, useCallback, useEffect, useMemo, useRef } from "react"
+import {
+  X,
+  Download,
+  ZoomIn,
+  ZoomOut,
+  RotateCw,
+  Info,
+  ExternalLink,
+  Globe,
+  Rewind,
+  FastForward,
+  ChevronLeft,
+  ChevronRight,
+  FileText,
+  FileVideo,
+  FileImage,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
+import { Carousel, CarouselContent, CarouselItem, type CarouselApi } from "@/components/ui/carousel"
 import { Dialog, DialogContent } from "@/components/ui/dialog"
-
-interface MediaViewerProps {
-  isOpen: boolean
-  onClose: () => void
-  fileUrl: string
+import { MediaMetadataPanel } from "@/components/media-metadata-panel"
+import {
+  findMediaRenderer,
+  getRendererComponent,
+  NO_CAPABILITIES,
+  type MediaRendererController,
+} from "@/components/media-renderers"
+import { prefetchSignedUrl, useSignedUrl } from "@/hooks/use-signed-url"
+import { MAX_SCALE, MIN_SCALE, useZoomPan } from "@/hooks/use-zoom-pan"
+import { EMBED_ALLOW, EMBED_SANDBOX, resolveEmbed } from "@/lib/embed-providers"
+import type { MediaMetadata } from "@/lib/exif"
+import type { LinkPreview } from "@/lib/link-preview"
+import { getSignedFileUrl, getSignedFileUrls } from "@/lib/supabase-actions"
+import { cn, formatFileSize } from "@/lib/utils"
+
+// One file in a gallery; a proof attachment can be passed as is
+export interface MediaViewerItem {
+  filePath: string
   fileName: string
   fileType: string
   fileSize?: number
+  thumbnailPath?: string
+  metadata?: MediaMetadata
 }
 
-export function MediaViewer({ isOpen, onClose, fileUrl, fileName, fileType, fileSize }: MediaViewerProps) {
-  const [imageScale, setImageScale] = useState(1)
-  const [imageRotation, setImageRotation] = useState(0)
-  const [panPosition, setPanPosition] = useState({ x: 0, y: 0 })
-  const [isDragging, setIsDragging] = useState(false)
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
-  const [isLoading, setIsLoading] = useState(true)
-  const imageRef = useRef<HTMLImageElement>(null)
-  const containerRef = useRef<HTMLDivElement>(null)
+interface MediaViewerProps {
+  // "dialog" renders in a modal controlled by isOpen/onClose, "inline" renders in place
+  variant?: "dialog" | "inline"
+  isOpen?: boolean
+  onClose?: () => void
+  className?: string
+  // Storage path of the file, unless a proofLink is shown; a signed URL is requested when the viewer is shown
+  filePath?: string
+  fileName?: string
+  fileType?: string
+  fileSize?: number
+  // Storage path of the video's poster frame, shown until playback starts
+  thumbnailPath?: string
+  // Capture details extracted at upload, shown in the collapsible metadata panel
+  metadata?: MediaMetadata
+  // Shown instead of a file: links to known platforms play in a sandboxed embed, others get a card
+  proofLink?: string
+  // Cached unfurl of proofLink, used to describe links that can't be embedded
+  linkPreview?: LinkPreview
+  // Gallery mode: the files to flip through, replacing the single-file props above
+  items?: MediaViewerItem[]
+  // Item shown first, and again whenever the dialog is reopened
+  initialIndex?: number
+}
 
-  const isImage = fileType.startsWith("image/")
-  const isVideo = fileType.startsWith("video/")
+const SEEK_STEP_SECONDS = 10
 
-  const handleZoomIn = useCallback(() => {
-    setImageScale((prev) => Math.min(prev + 0.25, 3))
-  }, [])
+const getItemIcon = (fileType: string) => {
+  if (fileType.startsWith("video/")) return FileVideo
+  if (fileType === "application/pdf") return FileText
+  return FileImage
+}
 
-  const handleZoomOut = useCallback(() => {
-    setImageScale((prev) => {
-      const newScale = Math.max(prev - 0.25, 0.25)
-      // Reset pan position if zooming out to fit or below
-      if (newScale <= 1) {
-        setPanPosition({ x: 0, y: 0 })
-      }
-      return newScale
-    })
-  }, [])
+// Keys typed into fields, or used by a focused player, aren't gallery navigation
+const isEditableTarget = (target: EventTarget) =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT|VIDEO)$/.test(target.tagName))
 
-  const handleRotate = useCallback(() => {
-    setImageRotation((prev) => (prev + 90) % 360)
-  }, [])
+const getHostname = (link: string) => {
+  try {
+    return new URL(link).hostname.replace(/^www\./, "")
+  } catch {
+    return link
+  }
+}
 
-  const handleReset = useCallback(() => {
-    setImageScale(1)
-    setImageRotation(0)
-    setPanPosition({ x: 0, y: 0 })
-  }, [])
+export function MediaViewer(props: MediaViewerProps) {
+  const {
+    variant = "dialog",
+    isOpen = false,
+    onClose,
+    className,
+    proofLink,
+    linkPreview,
+    items,
+    initialIndex = 0,
+  } = props
+  const [index, setIndex] = useState(initialIndex)
+  const itemCount = items?.length ?? 0
+  const currentIndex = Math.min(Math.max(index, 0), Math.max(itemCount - 1, 0))
+  const { filePath, fileName, fileType = "", fileSize, thumbnailPath, metadata } = items?.[currentIndex] ?? props
 
-  // Drag and drop functionality
-  const handleMouseDown = useCallback(
-    (e: React.MouseEvent) => {
-      if (isImage && imageScale > 1) {
-        setIsDragging(true)
-        setDragStart({
-          x: e.clientX - panPosition.x,
-          y: e.clientY - panPosition.y,
-        })
-        e.preventDefault()
-      }
-    },
-    [isImage, imageScale, panPosition],
+  const [imageRotation, setImageRotation] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isMetadataOpen, setIsMetadataOpen] = useState(false)
+  const [toolbarSlot, setToolbarSlot] = useState<HTMLDivElement | null>(null)
+  const controllerRef = useRef<MediaRendererController | null>(null)
+
+  const isVisible = variant === "inline" || isOpen
+  const isLink = Boolean(proofLink)
+  const embed = useMemo(() => (proofLink ? resolveEmbed(proofLink) : undefined), [proofLink])
+  const renderer = useMemo(
+    () => (isLink ? undefined : findMediaRenderer(fileType, fileName)),
+    [isLink, fileType, fileName],
   )
+  const Renderer = renderer && getRendererComponent(renderer)
+  const capabilities = renderer?.capabilities ?? NO_CAPABILITIES
+
+  const {
+    scale: imageScale,
+    pan: panPosition,
+    smooth: isViewAnimated,
+    isDragging,
+    zoomIn: handleZoomIn,
+    zoomOut: handleZoomOut,
+    reset: resetZoomPan,
+    containerProps,
+  } = useZoomPan({
+    zoom: capabilities.zoom,
+    pan: capabilities.pan,
+    rotation: imageRotation,
+    getActualSizeScale: () => controllerRef.current?.getActualSizeScale?.(),
+    getContentSize: () => controllerRef.current?.getContentSize?.(),
+  })
+
+  const { url: signedUrl, error: urlError, refresh: refreshUrl } = useSignedUrl(isVisible ? filePath : undefined)
+  const { url: posterUrl } = useSignedUrl(isVisible && renderer?.usesPoster ? thumbnailPath : undefined)
+
+  // The media element keeps the URL it started with; a playing video would restart if its src
+  // changed on every scheduled refresh. A fresh URL is only swapped in after a load error.
+  const [mediaUrl, setMediaUrl] = useState<string>()
+  const [mediaError, setMediaError] = useState(false)
+  const awaitingUrlRef = useRef(false)
+  const retriedRef = useRef(false)
+
+  // Start from a freshly signed URL whenever the viewer is reopened or shows another file
+  useEffect(() => {
+    setMediaUrl(undefined)
+    setMediaError(false)
+    retriedRef.current = false
+    // Each file starts out fitted, as if the viewer had just been opened on it
+    resetZoomPan()
+    setImageRotation(0)
+    setIsLoading(true)
+  }, [filePath, isVisible, resetZoomPan])
 
-  const handleMouseMove = useCallback(
-    (e: React.MouseEvent) => {
-      if (isDragging && imageScale > 1) {
-        const newX = e.clientX - dragStart.x
-        const newY = e.clientY - dragStart.y
-
-        // Optional: Add boundary constraints to prevent dragging too far
-        const maxOffset = 200 // Maximum pixels to drag beyond container
-        const constrainedX = Math.max(-maxOffset, Math.min(maxOffset, newX))
-        const constrainedY = Math.max(-maxOffset, Math.min(maxOffset, newY))
-
-        setPanPosition({
-          x: constrainedX,
-          y: constrainedY,
-        })
-      }
+  useEffect(() => {
+    if (isOpen) setIndex(initialIndex)
+  }, [isOpen, initialIndex])
+
+  const showItem = useCallback(
+    (next: number) => {
+      if (next >= 0 && next < itemCount) setIndex(next)
     },
-    [isDragging, imageScale, dragStart],
+    [itemCount],
   )
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(false)
-  }, [])
+  // Neighbours are signed ahead and images fetched into the browser cache, so flipping is instant
+  useEffect(() => {
+    if (!isVisible || !items) return
+
+    for (const neighbour of [items[currentIndex - 1], items[currentIndex + 1]]) {
+      if (!neighbour) continue
+      const preload = neighbour.fileType.startsWith("image/") ? neighbour.filePath : neighbour.thumbnailPath
+      if (!preload) continue
+      prefetchSignedUrl(preload).then((url) => {
+        if (url) new Image().src = url
+      })
+    }
+  }, [isVisible, items, currentIndex])
+
+  const [stripUrls, setStripUrls] = useState<Record<string, string>>({})
+  const [stripApi, setStripApi] = useState<CarouselApi>()
 
-  const handleMouseLeave = useCallback(() => {
-    setIsDragging(false)
+  useEffect(() => {
+    const thumbnailPaths = (items ?? []).flatMap((item) => (item.thumbnailPath ? [item.thumbnailPath] : []))
+    if (!isVisible || itemCount < 2 || thumbnailPaths.length === 0) return
+
+    let cancelled = false
+    getSignedFileUrls(thumbnailPaths).then((result) => {
+      if (!cancelled && result.urls) setStripUrls(result.urls)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [isVisible, items, itemCount])
+
+  useEffect(() => {
+    stripApi?.scrollTo(currentIndex)
+  }, [stripApi, currentIndex])
+
+  const handleGalleryKeyDown = (event: React.KeyboardEvent) => {
+    if (itemCount < 2 || isEditableTarget(event.target)) return
+    if (event.key === "ArrowLeft") showItem(currentIndex - 1)
+    else if (event.key === "ArrowRight") showItem(currentIndex + 1)
+    else return
+    event.preventDefault()
+  }
+
+  useEffect(() => {
+    if (signedUrl && (!mediaUrl || awaitingUrlRef.current)) {
+      awaitingUrlRef.current = false
+      setMediaUrl(signedUrl)
+    }
+  }, [signedUrl, mediaUrl])
+
+  const handleMediaLoaded = useCallback(() => {
+    retriedRef.current = false
+    setIsLoading(false)
   }, [])
 
-  // Touch events for mobile drag support
-  const handleTouchStart = useCallback(
-    (e: React.TouchEvent) => {
-      if (isImage && imageScale > 1 && e.touches.length === 1) {
-        const touch = e.touches[0]
-        setIsDragging(true)
-        setDragStart({
-          x: touch.clientX - panPosition.x,
-          y: touch.clientY - panPosition.y,
-        })
-        e.preventDefault()
-      }
-    },
-    [isImage, imageScale, panPosition],
-  )
+  // Most load errors mid-session are an expired URL, so retry once with a fresh one
+  const handleMediaError = useCallback(() => {
+    if (retriedRef.current) {
+      setMediaError(true)
+      setIsLoading(false)
+      return
+    }
 
-  const handleTouchMove = useCallback(
-    (e: React.TouchEvent) => {
-      if (isDragging && imageScale > 1 && e.touches.length === 1) {
-        const touch = e.touches[0]
-        const newX = touch.clientX - dragStart.x
-        const newY = touch.clientY - dragStart.y
-
-        // Apply same constraints as mouse
-        const maxOffset = 200
-        const constrainedX = Math.max(-maxOffset, Math.min(maxOffset, newX))
-        const constrainedY = Math.max(-maxOffset, Math.min(maxOffset, newY))
-
-        setPanPosition({
-          x: constrainedX,
-          y: constrainedY,
-        })
-        e.preventDefault()
-      }
-    },
-    [isDragging, imageScale, dragStart],
-  )
+    retriedRef.current = true
+    awaitingUrlRef.current = true
+    refreshUrl()
+  }, [refreshUrl])
 
-  const handleTouchEnd = useCallback(() => {
-    setIsDragging(false)
+  const handleRotate = useCallback(() => {
+    setImageRotation((prev) => (prev + 90) % 360)
   }, [])
 
+  const handleReset = useCallback(() => {
+    resetZoomPan()
+    setImageRotation(0)
+  }, [resetZoomPan])
+
   const handleDownload = async () => {
+    if (!filePath) return
+
     try {
-      const response = await fetch(fileUrl)
+      // Signed on demand so a viewer left open for a while still downloads
+      const signed = await getSignedFileUrl(filePath)
+      if (!signed.url) {
+        throw new Error(signed.error ?? "Failed to create file URL")
+      }
+
+      const response = await fetch(signed.url)
       const blob = await response.blob()
       const url = window.URL.createObjectURL(blob)
       const a = document.createElement("a")
       a.href = url
-      a.download = fileName
+      a.download = fileName ?? ""
       document.body.appendChild(a)
       a.click()
       window.URL.revokeObjectURL(url)
@@ -157,97 +276,136 @@ export function MediaViewer({ isOpen, onClose, fileUrl, fileName, fileType, file
   }
 
   const resetImageControls = useCallback(() => {
-    setImageScale(1)
+    resetZoomPan()
     setImageRotation(0)
-    setPanPosition({ x: 0, y: 0 })
-    setIsDragging(false)
     setIsLoading(true)
-  }, [])
+  }, [resetZoomPan])
 
   const handleClose = useCallback(() => {
     resetImageControls()
-    onClose()
+    onClose?.()
   }, [resetImageControls, onClose])
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return "0 Bytes"
-    const k = 1024
-    const sizes = ["Bytes", "KB", "MB", "GB"]
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return Number.parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + " " + sizes[i]
-  }
-
   // Determine cursor style based on state
   const getCursorStyle = () => {
-    if (!isImage) return "default"
+    if (!capabilities.pan) return "default"
     if (isDragging) return "grabbing"
     if (imageScale > 1) return "grab"
     return "default"
   }
 
-  return (
-    <Dialog open={isOpen} onOpenChange={handleClose}>
-      <DialogContent className="max-w-4xl w-full h-[90vh] p-0 overflow-hidden">
-        {/* Header */}
-        <div className="flex items-center justify-between p-4 border-b bg-white">
-          <div className="flex-1 min-w-0">
-            <h3 className="text-lg font-semibold truncate">{fileName}</h3>
+  const content = (
+    <>
+      {/* Header */}
+      <div className="flex items-center justify-between p-4 border-b bg-white">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-lg font-semibold truncate">
+            {fileName ?? embed?.provider.name ?? (proofLink && getHostname(proofLink))}
+          </h3>
+          {itemCount > 1 && (
+            <p className="text-xs text-gray-500" aria-live="polite">
+              {currentIndex + 1} of {itemCount}
+            </p>
+          )}
+          {isLink ? (
+            <p className="text-sm text-gray-500 truncate">{proofLink}</p>
+          ) : (
             <p className="text-sm text-gray-500">
               {fileType} {fileSize && `• ${formatFileSize(fileSize)}`}
             </p>
-          </div>
+          )}
+        </div>
 
-          <div className="flex items-center gap-2 ml-4">
-            {isImage && (
-              <>
-                <Button
-                  variant="outline"
-                  size="sm"
-                  onClick={handleZoomOut}
-                  disabled={imageScale <= 0.25}
-                  title="Zoom Out"
-                >
-                  <ZoomOut className="size-4" />
-                </Button>
-                <span className="text-sm text-gray-600 min-w-[4rem] text-center font-mono">
-                  {Math.round(imageScale * 100)}%
-                </span>
-                <Button variant="outline" size="sm" onClick={handleZoomIn} disabled={imageScale >= 3} title="Zoom In">
-                  <ZoomIn className="size-4" />
-                </Button>
-                <div className="w-px h-6 bg-gray-300 mx-2" />
-                <Button variant="outline" size="sm" onClick={handleRotate} title="Rotate 90°">
-                  <RotateCw className="size-4" />
-                </Button>
-                <Button variant="outline" size="sm" onClick={handleReset} title="Reset View">
-                  Reset
-                </Button>
-                <div className="w-px h-6 bg-gray-300 mx-2" />
-              </>
-            )}
+        <div className="flex items-center gap-2 ml-4">
+          {capabilities.zoom && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleZoomOut}
+                disabled={imageScale <= MIN_SCALE}
+                title="Zoom Out"
+              >
+                <ZoomOut className="size-4" />
+              </Button>
+              <span className="text-sm text-gray-600 min-w-[4rem] text-center font-mono">
+                {Math.round(imageScale * 100)}%
+              </span>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleZoomIn}
+                disabled={imageScale >= MAX_SCALE}
+                title="Zoom In"
+              >
+                <ZoomIn className="size-4" />
+              </Button>
+              <div className="w-px h-6 bg-gray-300 mx-2" />
+            </>
+          )}
+          {capabilities.rotate && (
+            <Button variant="outline" size="sm" onClick={handleRotate} title="Rotate 90°">
+              <RotateCw className="size-4" />
+            </Button>
+          )}
+          {(capabilities.zoom || capabilities.rotate) && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleReset} title="Reset View">
+                Reset
+              </Button>
+              <div className="w-px h-6 bg-gray-300 mx-2" />
+            </>
+          )}
+          {capabilities.seek && (
+            <>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controllerRef.current?.seekBy?.(-SEEK_STEP_SECONDS)}
+                title={`Back ${SEEK_STEP_SECONDS}s`}
+              >
+                <Rewind className="size-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => controllerRef.current?.seekBy?.(SEEK_STEP_SECONDS)}
+                title={`Forward ${SEEK_STEP_SECONDS}s`}
+              >
+                <FastForward className="size-4" />
+              </Button>
+              <div className="w-px h-6 bg-gray-300 mx-2" />
+            </>
+          )}
+          {/* Renderer-specific controls are portalled in here */}
+          <div ref={setToolbarSlot} className="contents" />
+          {isLink ? (
+            <Button variant="outline" size="sm" asChild title="Open Link">
+              <a href={proofLink} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="size-4" />
+              </a>
+            </Button>
+          ) : (
             <Button variant="outline" size="sm" onClick={handleDownload} title="Download File">
               <Download className="size-4" />
             </Button>
+          )}
+          {variant === "dialog" && (
             <Button variant="outline" size="sm" onClick={handleClose} title="Close Viewer">
               <X className="size-4" />
             </Button>
-          </div>
+          )}
         </div>
+      </div>
 
-        {/* Media Content */}
+      {/* Media Content */}
+      <div className="flex-1 flex min-h-0">
         <div
-          ref={containerRef}
+          {...containerProps}
           className="flex-1 flex items-center justify-center bg-gray-50 relative overflow-hidden"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseLeave}
-          onTouchStart={handleTouchStart}
-          onTouchMove={handleTouchMove}
-          onTouchEnd={handleTouchEnd}
-          style={{ cursor: getCursorStyle() }}
+          style={{ ...containerProps.style, cursor: getCursorStyle() }}
         >
-          {isLoading && (
+          {isLoading && !urlError && !mediaError && (renderer || embed) && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-50 z-10">
               <div className="flex flex-col items-center gap-2">
                 <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900"></div>
@@ -256,35 +414,97 @@ export function MediaViewer({ isOpen, onClose, fileUrl, fileName, fileType, file
             </div>
           )}
 
-          {isImage && (
-            <img
-              ref={imageRef}
-              src={fileUrl || "/placeholder.svg"}
-              alt={fileName}
-              className="max-w-full max-h-full object-contain select-none transition-transform duration-200"
-              style={{
-                transform: `scale(${imageScale}) rotate(${imageRotation}deg) translate(${panPosition.x / imageScale}px, ${panPosition.y / imageScale}px)`,
-                transformOrigin: "center center",
-              }}
-              onLoad={() => setIsLoading(false)}
-              onError={() => setIsLoading(false)}
-              draggable={false}
+          {itemCount > 1 && (
+            <>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute left-3 top-1/2 z-20 -translate-y-1/2 rounded-full shadow"
+                onClick={() => showItem(currentIndex - 1)}
+                disabled={currentIndex === 0}
+                title="Previous File"
+              >
+                <ChevronLeft className="size-5" />
+              </Button>
+              <Button
+                variant="secondary"
+                size="icon"
+                className="absolute right-3 top-1/2 z-20 -translate-y-1/2 rounded-full shadow"
+                onClick={() => showItem(currentIndex + 1)}
+                disabled={currentIndex === itemCount - 1}
+                title="Next File"
+              >
+                <ChevronRight className="size-5" />
+              </Button>
+            </>
+          )}
+
+          {(urlError || mediaError) && (
+            <div className="text-center p-8">
+              <p className="text-gray-500 mb-4">{urlError ?? "This file could not be loaded"}</p>
+              <Button onClick={handleDownload}>
+                <Download className="size-4 mr-2" />
+                Download File
+              </Button>
+            </div>
+          )}
+
+          {Renderer && mediaUrl && !mediaError && (
+            <Suspense fallback={null}>
+              <Renderer
+                key={filePath}
+                url={mediaUrl}
+                posterUrl={posterUrl}
+                fileName={fileName ?? ""}
+                fileType={fileType}
+                view={{ scale: imageScale, rotation: imageRotation, pan: panPosition, smooth: isViewAnimated }}
+                controllerRef={controllerRef}
+                toolbarSlot={toolbarSlot}
+                onLoad={handleMediaLoaded}
+                onError={handleMediaError}
+              />
+            </Suspense>
+          )}
+
+          {/* The player is cross-origin and sandboxed, so it can't reach this page or navigate it */}
+          {embed && (
+            <iframe
+              src={embed.embedUrl}
+              title={`${embed.provider.name} player`}
+              sandbox={EMBED_SANDBOX}
+              allow={EMBED_ALLOW}
+              allowFullScreen
+              referrerPolicy="strict-origin-when-cross-origin"
+              className={cn(
+                "h-full max-w-full border-0 bg-black",
+                !embed.provider.aspectRatio && "w-full max-w-xl bg-white",
+              )}
+              style={{ aspectRatio: embed.provider.aspectRatio }}
+              onLoad={handleMediaLoaded}
             />
           )}
 
-          {isVideo && (
-            <video
-              src={fileUrl}
-              controls
-              className="max-w-full max-h-full"
-              onLoadedData={() => setIsLoading(false)}
-              onError={() => setIsLoading(false)}
-            >
-              Your browser does not support the video tag.
-            </video>
+          {isLink && !embed && (
+            <div className="text-center p-8 max-w-md">
+              <Globe className="size-10 mx-auto mb-3 text-gray-400" />
+              <p className="font-medium text-gray-900 break-words">
+                {linkPreview?.title ?? (proofLink && getHostname(proofLink))}
+              </p>
+              {linkPreview?.description && (
+                <p className="mt-1 text-sm text-gray-600 line-clamp-3">{linkPreview.description}</p>
+              )}
+              <p className="mt-2 text-xs text-gray-500 break-all">{proofLink}</p>
+              <p className="text-gray-500 my-4">This link can't be previewed here</p>
+              <Button asChild>
+                <a href={proofLink} target="_blank" rel="noopener noreferrer">
+                  <ExternalLink className="size-4 mr-2" />
+                  Open Link
+                </a>
+              </Button>
+            </div>
           )}
 
-          {!isImage && !isVideo && (
+          {!renderer && !isLink && (
             <div className="text-center p-8">
               <p className="text-gray-500 mb-4">Preview not available for this file type</p>
               <Button onClick={handleDownload}>
@@ -295,26 +515,105 @@ export function MediaViewer({ isOpen, onClose, fileUrl, fileName, fileType, file
           )}
         </div>
 
-        {/* Footer Info */}
-        <div className="p-4 border-t bg-gray-50 text-sm text-gray-600">
-          <div className="flex justify-between items-center">
-            <div className="flex items-center gap-4">
-              <span>File size: {fileSize ? formatFileSize(fileSize) : "Unknown"}</span>
-              {isImage && imageScale > 1 && (
-                <span className="text-blue-600">
-                  Position: ({panPosition.x.toFixed(0)}, {panPosition.y.toFixed(0)})
-                </span>
-              )}
-            </div>
-            {isImage && (
-              <span className="text-xs text-gray-500">
-                {imageScale > 1
-                  ? "Click and drag to reposition • Use zoom buttons to adjust view"
-                  : "Use zoom buttons to adjust view • Rotate button to turn image"}
+        {isMetadataOpen && <MediaMetadataPanel metadata={metadata} />}
+      </div>
+
+      {items && itemCount > 1 && (
+        <div className="border-t bg-white px-4 py-2">
+          <Carousel setApi={setStripApi} opts={{ align: "center", dragFree: true }}>
+            <CarouselContent className="-ml-2">
+              {items.map((item, itemIndex) => {
+                const thumbnailUrl = item.thumbnailPath && stripUrls[item.thumbnailPath]
+                const Icon = getItemIcon(item.fileType)
+                return (
+                  <CarouselItem key={`${item.filePath}-${itemIndex}`} className="basis-auto pl-2">
+                    <button
+                      type="button"
+                      onClick={() => showItem(itemIndex)}
+                      aria-current={itemIndex === currentIndex}
+                      title={item.fileName}
+                      className={cn(
+                        "flex size-14 items-center justify-center overflow-hidden rounded border-2 bg-gray-50",
+                        itemIndex === currentIndex ? "border-blue-600" : "border-transparent hover:border-gray-300",
+                      )}
+                    >
+                      {thumbnailUrl ? (
+                        <img src={thumbnailUrl} alt="" className="size-full object-cover" draggable={false} />
+                      ) : (
+                        <Icon className="size-6 text-gray-400" />
+                      )}
+                    </button>
+                  </CarouselItem>
+                )
+              })}
+            </CarouselContent>
+          </Carousel>
+        </div>
+      )}
+
+      {/* Footer Info */}
+      <div className="p-4 border-t bg-gray-50 text-sm text-gray-600">
+        <div className="flex justify-between items-center">
+          <div className="flex items-center gap-4">
+            {isLink ? (
+              <span>{embed ? `Embedded from ${embed.provider.name}` : "External link"}</span>
+            ) : (
+              <>
+                <span>File size: {fileSize ? formatFileSize(fileSize) : "Unknown"}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsMetadataOpen((open) => !open)}
+                  aria-expanded={isMetadataOpen}
+                  title={isMetadataOpen ? "Hide Metadata" : "Show Metadata"}
+                >
+                  <Info className="size-4 mr-1" />
+                  Metadata
+                </Button>
+              </>
+            )}
+            {capabilities.pan && imageScale > 1 && (
+              <span className="text-blue-600">
+                Position: ({panPosition.x.toFixed(0)}, {panPosition.y.toFixed(0)})
               </span>
             )}
           </div>
+          {capabilities.zoom && (
+            <span className="text-xs text-gray-500">
+              {capabilities.pan && imageScale > 1
+                ? "Drag to reposition • Double-click to fit"
+                : capabilities.pan
+                  ? "Scroll or pinch to zoom • Double-click for actual size"
+                  : "Ctrl+scroll or pinch to zoom • Rotate button to turn 90°"}
+            </span>
+          )}
         </div>
+      </div>
+    </>
+  )
+
+  if (variant === "inline") {
+    return (
+      <div
+        tabIndex={-1}
+        onKeyDown={handleGalleryKeyDown}
+        className={cn(
+          "flex flex-col w-full h-[70vh] border rounded-lg overflow-hidden bg-white outline-none",
+          className,
+        )}
+      >
+        {content}
+      </div>
+    )
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent
+        onKeyDown={handleGalleryKeyDown}
+        className={cn("flex flex-col gap-0 max-w-4xl w-full h-[90vh] p-0 overflow-hidden", className)}
+      >
+        {content}
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,35 @@
+"use client"
+
+import { useState } from "react"
+import { MediaViewer, type MediaViewerItem } from "@/components/media-viewer"
+
+interface ProofGalleryThumbnailProps {
+  // The files of every proof in the listing, so the gallery can move on to the next proof
+  items: MediaViewerItem[]
+  index: number
+  thumbnailUrl: string
+}
+
+// A listing thumbnail that opens the listed files in a gallery, starting at this one
+export function ProofGalleryThumbnail({ items, index, thumbnailUrl }: ProofGalleryThumbnailProps) {
+  const [isOpen, setIsOpen] = useState(false)
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setIsOpen(true)}
+        title={`View ${items[index].fileName}`}
+        className="shrink-0 rounded focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-blue-600"
+      >
+        <img
+          src={thumbnailUrl}
+          alt=""
+          loading="lazy"
+          className="size-10 rounded border bg-gray-50 object-cover transition-opacity hover:opacity-80"
+        />
+      </button>
+      <MediaViewer isOpen={isOpen} onClose={() => setIsOpen(false)} items={items} initialIndex={index} />
+    </>
+  )
+}
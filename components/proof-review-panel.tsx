@@ -0,0 +1,175 @@
+"use client"
+
+import { useEffect, useState, type FormEvent } from "react"
+import { useRouter } from "next/navigation"
+import { AlertCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { useReviewerSession } from "@/hooks/use-reviewer-session"
+import {
+  getReviewerTransitions,
+  PROOF_STATUS_LABELS,
+  requiresReviewerNotes,
+  type ProofStatus,
+} from "@/lib/proof-status"
+import { resubmitProof, transitionProofStatus } from "@/lib/supabase-actions"
+import { readSubmitterToken } from "@/lib/submitter-token-store"
+
+const ACTION_LABELS: Partial<Record<ProofStatus, string>> = {
+  under_review: "Start Review",
+  approved: "Approve",
+  rejected: "Reject",
+  needs_changes: "Request Changes",
+}
+
+interface ProofReviewPanelProps {
+  proofId: number
+  status: ProofStatus
+}
+
+// Status changes for a proof: the review decisions for reviewers, and resubmitting for the browser
+// that submitted a proof sent back for changes
+export function ProofReviewPanel({ proofId, status }: ProofReviewPanelProps) {
+  const router = useRouter()
+  const { session, isLoading, isAuthConfigured, signIn, signOut } = useReviewerSession()
+  const [submitterToken, setSubmitterToken] = useState<string | null>(null)
+  const [notes, setNotes] = useState("")
+  const [email, setEmail] = useState("")
+  const [signInSentTo, setSignInSentTo] = useState<string>()
+  const [error, setError] = useState<string>()
+  const [isSaving, setIsSaving] = useState(false)
+
+  // Only known in the browser, so it's read after hydration
+  useEffect(() => {
+    setSubmitterToken(readSubmitterToken(proofId))
+  }, [proofId])
+
+  const reviewerTransitions = getReviewerTransitions(status)
+  const resubmitToken = status === "needs_changes" ? submitterToken : null
+  const canResubmit = resubmitToken !== null
+
+  if (reviewerTransitions.length === 0 && !canResubmit) return null
+
+  const save = async (change: () => Promise<{ success: boolean; error?: string }>) => {
+    setIsSaving(true)
+    setError(undefined)
+    try {
+      const result = await change()
+      if (!result.success) {
+        setError(result.error)
+        return
+      }
+      setNotes("")
+      router.refresh()
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to update proof status")
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const review = (nextStatus: ProofStatus) =>
+    save(() => transitionProofStatus(proofId, nextStatus, { accessToken: session?.access_token, notes }))
+
+  const resubmit = (token: string) => save(() => resubmitProof(proofId, { submitterToken: token, notes }))
+
+  const requestSignIn = async (event: FormEvent) => {
+    event.preventDefault()
+    setError(undefined)
+    const signInError = await signIn(email.trim())
+    if (signInError) {
+      setError(signInError)
+    } else {
+      setSignInSentTo(email.trim())
+    }
+  }
+
+  // Proofs sent back for changes have no reviewer transitions, so the two never show together
+  const needsSignIn = !canResubmit && isAuthConfigured && !session
+
+  return (
+    <div className="bg-white rounded-lg border p-4 space-y-3">
+      <div className="flex items-center justify-between gap-4">
+        <h2 className="font-semibold text-gray-900">{canResubmit ? "Resubmit" : "Review"}</h2>
+        {session && !canResubmit && (
+          <div className="flex items-center gap-2 text-sm text-gray-500">
+            <span>Signed in as {session.user.email}</span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => void signOut()}>
+              Sign out
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-3 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="size-4 text-red-600 flex-shrink-0" />
+          <span className="text-sm text-red-700">{error}</span>
+        </div>
+      )}
+
+      {isLoading ? null : needsSignIn ? (
+        signInSentTo ? (
+          <p className="text-sm text-gray-600">Check {signInSentTo} for a sign-in link.</p>
+        ) : (
+          <form onSubmit={requestSignIn} className="space-y-2">
+            <Label htmlFor="reviewer-email" className="text-sm font-medium text-gray-700">
+              Sign in with your reviewer account to review this proof
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="reviewer-email"
+                type="email"
+                required
+                value={email}
+                onChange={(event) => setEmail(event.target.value)}
+                placeholder="you@example.com"
+              />
+              <Button type="submit">Send Link</Button>
+            </div>
+          </form>
+        )
+      ) : (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="review-notes" className="text-sm font-medium text-gray-700">
+              {canResubmit ? "What changed (optional)" : "Reviewer Notes"}
+            </Label>
+            <Textarea
+              id="review-notes"
+              value={notes}
+              onChange={(event) => setNotes(event.target.value)}
+              placeholder={
+                canResubmit
+                  ? "Let the reviewer know what you changed"
+                  : "Required when rejecting a proof or requesting changes"
+              }
+            />
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {resubmitToken !== null ? (
+              <Button type="button" disabled={isSaving} onClick={() => void resubmit(resubmitToken)}>
+                Resubmit for Review
+              </Button>
+            ) : (
+              reviewerTransitions.map((nextStatus) => (
+                <Button
+                  key={nextStatus}
+                  type="button"
+                  variant={nextStatus === "rejected" ? "destructive" : "default"}
+                  disabled={isSaving || (requiresReviewerNotes(nextStatus) && !notes.trim())}
+                  onClick={() => void review(nextStatus)}
+                >
+                  {ACTION_LABELS[nextStatus] ?? PROOF_STATUS_LABELS[nextStatus]}
+                </Button>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
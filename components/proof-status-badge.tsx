@@ -0,0 +1,24 @@
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { PROOF_STATUS_LABELS, type ProofStatus } from "@/lib/proof-status"
+
+const STATUS_CLASSES: Record<ProofStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800 hover:bg-yellow-100",
+  under_review: "bg-blue-100 text-blue-800 hover:bg-blue-100",
+  approved: "bg-green-100 text-green-800 hover:bg-green-100",
+  rejected: "bg-red-100 text-red-800 hover:bg-red-100",
+  needs_changes: "bg-orange-100 text-orange-800 hover:bg-orange-100",
+}
+
+interface ProofStatusBadgeProps {
+  status: ProofStatus
+  className?: string
+}
+
+export function ProofStatusBadge({ status, className }: ProofStatusBadgeProps) {
+  return (
+    <Badge variant="secondary" className={cn("border-transparent", STATUS_CLASSES[status], className)}>
+      {PROOF_STATUS_LABELS[status]}
+    </Badge>
+  )
+}
@@ -0,0 +1,136 @@
+"use client"
+
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { PROOF_STATUSES, PROOF_STATUS_LABELS } from "@/lib/proof-status"
+import {
+  buildProofListHref,
+  DEFAULT_PROOF_LIST_QUERY,
+  PROOF_FILE_TYPES,
+  PROOF_KINDS,
+  type ProofListQuery,
+} from "@/lib/proof-query"
+
+// Radix Select does not allow an empty item value, so "all" stands for "no filter"
+const ALL = "all"
+
+const FILE_TYPE_LABELS: Record<(typeof PROOF_FILE_TYPES)[number], string> = {
+  image: "Images",
+  video: "Videos",
+  application: "PDFs",
+}
+
+const KIND_LABELS: Record<(typeof PROOF_KINDS)[number], string> = {
+  link: "Link only",
+  file: "With file",
+}
+
+interface ProofsFiltersProps {
+  query: ProofListQuery
+  basePath?: string
+}
+
+export function ProofsFilters({ query, basePath = "/proofs" }: ProofsFiltersProps) {
+  const router = useRouter()
+
+  const applyFilter = (changes: Partial<ProofListQuery>) => {
+    // Any filter change invalidates the current page
+    router.push(buildProofListHref({ ...query, ...changes, page: 1 }, basePath))
+  }
+
+  const hasFilters = Boolean(query.status || query.fileType || query.kind)
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-700">Status</Label>
+        <Select
+          value={query.status ?? ALL}
+          onValueChange={(value) =>
+            applyFilter({ status: value === ALL ? undefined : (value as ProofListQuery["status"]) })
+          }
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All statuses</SelectItem>
+            {PROOF_STATUSES.map((status) => (
+              <SelectItem key={status} value={status}>
+                {PROOF_STATUS_LABELS[status]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-700">File type</Label>
+        <Select
+          value={query.fileType ?? ALL}
+          onValueChange={(value) =>
+            applyFilter({ fileType: value === ALL ? undefined : (value as ProofListQuery["fileType"]) })
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All types</SelectItem>
+            {PROOF_FILE_TYPES.map((fileType) => (
+              <SelectItem key={fileType} value={fileType}>
+                {FILE_TYPE_LABELS[fileType]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs font-medium text-gray-700">Proof</Label>
+        <Select
+          value={query.kind ?? ALL}
+          onValueChange={(value) =>
+            applyFilter({ kind: value === ALL ? undefined : (value as ProofListQuery["kind"]) })
+          }
+        >
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>Links and files</SelectItem>
+            {PROOF_KINDS.map((kind) => (
+              <SelectItem key={kind} value={kind}>
+                {KIND_LABELS[kind]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {hasFilters && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() =>
+            router.push(
+              buildProofListHref(
+                {
+                  ...DEFAULT_PROOF_LIST_QUERY,
+                  pageSize: query.pageSize,
+                  sortBy: query.sortBy,
+                  sortOrder: query.sortOrder,
+                },
+                basePath,
+              ),
+            )
+          }
+        >
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
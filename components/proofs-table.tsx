@@ -0,0 +1,210 @@
+import Link from "next/link"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { MediaViewerItem } from "@/components/media-viewer"
+import { ProofGalleryThumbnail } from "@/components/proof-gallery-thumbnail"
+import { ProofStatusBadge } from "@/components/proof-status-badge"
+import { buildProofListHref, type ProofListQuery, type ProofSortField } from "@/lib/proof-query"
+import type { ProofRecord } from "@/lib/repositories"
+import { formatFileSize } from "@/lib/utils"
+
+// Page numbers to render, with null marking a gap
+function getPageNumbers(current: number, totalPages: number): (number | null)[] {
+  if (totalPages <= 7) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1)
+  }
+
+  const pages = new Set([1, totalPages, current - 1, current, current + 1])
+  const sorted = [...pages].filter((page) => page >= 1 && page <= totalPages).sort((a, b) => a - b)
+
+  return sorted.flatMap((page, index) => (index > 0 && page - sorted[index - 1] > 1 ? [null, page] : [page]))
+}
+
+interface SortableHeadProps {
+  query: ProofListQuery
+  basePath: string
+  field: ProofSortField
+  label: string
+}
+
+function SortableHead({ query, basePath, field, label }: SortableHeadProps) {
+  const isActive = query.sortBy === field
+  const nextOrder = isActive && query.sortOrder === "desc" ? "asc" : "desc"
+  const Icon = !isActive ? ArrowUpDown : query.sortOrder === "asc" ? ArrowUp : ArrowDown
+
+  return (
+    <TableHead>
+      <Link
+        href={buildProofListHref({ ...query, sortBy: field, sortOrder: nextOrder, page: 1 }, basePath)}
+        className="inline-flex items-center gap-1 hover:text-gray-900"
+      >
+        {label}
+        <Icon className="size-3" />
+      </Link>
+    </TableHead>
+  )
+}
+
+interface ProofsTableProps {
+  proofs: ProofRecord[]
+  query: ProofListQuery
+  basePath?: string
+  // Signed URLs keyed by thumbnail path
+  thumbnailUrls?: Record<string, string>
+}
+
+export function ProofsTable({ proofs, query, basePath = "/proofs", thumbnailUrls = {} }: ProofsTableProps) {
+  // Lists scoped to a single term don't need to repeat it on every row
+  const showTerm = query.termId === undefined
+
+  // Each proof's primary file, for browsing the page's files in one viewer
+  const galleryItems: MediaViewerItem[] = proofs.flatMap((proof) =>
+    proof.filePath && proof.fileName && proof.fileType
+      ? [
+          {
+            filePath: proof.filePath,
+            fileName: proof.fileName,
+            fileType: proof.fileType,
+            // A proof's size covers all of its files
+            fileSize: proof.attachmentCount === 1 ? proof.fileSize : undefined,
+            thumbnailPath: proof.thumbnailPath,
+          },
+        ]
+      : [],
+  )
+
+  return (
+    <div className="rounded-lg border bg-white">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>ID</TableHead>
+            {showTerm && <TableHead>Term</TableHead>}
+            <TableHead>Proof</TableHead>
+            <TableHead>Type</TableHead>
+            <SortableHead query={query} basePath={basePath} field="file_size" label="Size" />
+            <TableHead>Status</TableHead>
+            <SortableHead query={query} basePath={basePath} field="created_at" label="Submitted" />
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {proofs.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={showTerm ? 7 : 6} className="h-24 text-center text-gray-500">
+                No proofs match these filters.
+              </TableCell>
+            </TableRow>
+          ) : (
+            proofs.map((proof) => {
+              const thumbnailUrl = proof.thumbnailPath ? thumbnailUrls[proof.thumbnailPath] : undefined
+
+              return (
+                <TableRow key={proof.id}>
+                  <TableCell className="font-mono">
+                    <Link href={`/proofs/${proof.id}`} className="text-blue-600 hover:underline">
+                      #{proof.id}
+                    </Link>
+                  </TableCell>
+                  {showTerm && (
+                    <TableCell className="font-mono">
+                      <Link href={`/terms/${proof.termId}`} className="text-blue-600 hover:underline">
+                        #{proof.termId}
+                      </Link>
+                    </TableCell>
+                  )}
+                  <TableCell className="max-w-xs">
+                    <div className="flex items-center gap-3">
+                      {thumbnailUrl && (
+                        <ProofGalleryThumbnail
+                          items={galleryItems}
+                          index={galleryItems.findIndex((item) => item.filePath === proof.filePath)}
+                          thumbnailUrl={thumbnailUrl}
+                        />
+                      )}
+                      <div className="min-w-0">
+                        {proof.fileName && (
+                          <p className="truncate font-medium text-gray-900">
+                            {proof.fileName}
+                            {proof.attachmentCount > 1 && (
+                              <span className="font-normal text-gray-500"> +{proof.attachmentCount - 1} more</span>
+                            )}
+                          </p>
+                        )}
+                        {proof.proofLink && <p className="truncate text-blue-600">{proof.proofLink}</p>}
+                      </div>
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-gray-600">{proof.fileType ?? "Link"}</TableCell>
+                  <TableCell className="text-gray-600">
+                    {proof.fileSize !== undefined ? formatFileSize(proof.fileSize) : "—"}
+                  </TableCell>
+                  <TableCell>
+                    <ProofStatusBadge status={proof.status} />
+                  </TableCell>
+                  <TableCell className="text-gray-600">{new Date(proof.createdAt).toLocaleString()}</TableCell>
+                </TableRow>
+              )
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
+
+interface ProofsPaginationProps {
+  query: ProofListQuery
+  total: number
+  basePath?: string
+}
+
+export function ProofsPagination({ query, total, basePath = "/proofs" }: ProofsPaginationProps) {
+  const totalPages = Math.max(1, Math.ceil(total / query.pageSize))
+
+  if (totalPages <= 1) {
+    return null
+  }
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href={buildProofListHref({ ...query, page: Math.max(1, query.page - 1) }, basePath)}
+            aria-disabled={query.page <= 1}
+            className={query.page <= 1 ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+        {getPageNumbers(query.page, totalPages).map((page, index) =>
+          page === null ? (
+            <PaginationItem key={`gap-${index}`}>
+              <PaginationEllipsis />
+            </PaginationItem>
+          ) : (
+            <PaginationItem key={page}>
+              <PaginationLink href={buildProofListHref({ ...query, page }, basePath)} isActive={page === query.page}>
+                {page}
+              </PaginationLink>
+            </PaginationItem>
+          ),
+        )}
+        <PaginationItem>
+          <PaginationNext
+            href={buildProofListHref({ ...query, page: Math.min(totalPages, query.page + 1) }, basePath)}
+            aria-disabled={query.page >= totalPages}
+            className={query.page >= totalPages ? "pointer-events-none opacity-50" : undefined}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  )
+}
@@ -0,0 +1,68 @@
+"use client"
+
+import { Pause, Play, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import type { UploadProgress as UploadProgressState } from "@/hooks/use-proof-uploads"
+import { formatDuration, formatFileSize } from "@/lib/utils"
+
+interface UploadProgressProps {
+  progress: UploadProgressState
+  onPause: () => void
+  onResume: () => void
+  onCancel: () => void
+}
+
+export function UploadProgress({ progress, onPause, onResume, onCancel }: UploadProgressProps) {
+  const percent = progress.bytesTotal > 0 ? Math.round((progress.bytesUploaded / progress.bytesTotal) * 100) : 0
+
+  let status = "Estimating time remaining..."
+  if (progress.isPaused) {
+    status = "Paused"
+  } else if (progress.secondsRemaining !== undefined) {
+    status = `About ${formatDuration(progress.secondsRemaining)} remaining`
+  }
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 bg-gray-50 p-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium text-gray-900 truncate">
+          {progress.fileCount > 1 && `File ${progress.fileIndex + 1} of ${progress.fileCount}: `}
+          {progress.fileName}
+        </p>
+        <span className="text-sm text-gray-600 flex-shrink-0">{percent}%</span>
+      </div>
+
+      <Progress value={percent} className="h-2" aria-label="Upload progress" />
+
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-xs text-gray-500">
+          {formatFileSize(progress.bytesUploaded)} of {formatFileSize(progress.bytesTotal)} • {status}
+        </p>
+        <div className="flex gap-1 flex-shrink-0">
+          {progress.isPaused ? (
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onResume}>
+              <Play className="size-3.5 mr-1" />
+              Resume
+            </Button>
+          ) : (
+            <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onPause}>
+              <Pause className="size-3.5 mr-1" />
+              Pause
+            </Button>
+          )}
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-red-600 hover:text-red-700 hover:bg-red-50"
+            onClick={onCancel}
+          >
+            <X className="size-3.5 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,216 @@
+"use client"
+
+import { useCallback, useRef, useState } from "react"
+import { createResumableUploader, type ResumableUploader } from "@/lib/resumable-upload"
+import type { ProofAttachmentInput } from "@/lib/repositories"
+import { discardUploadedFiles } from "@/lib/supabase-actions"
+import { createThumbnail } from "@/lib/thumbnails"
+import { uploadProofFile } from "@/lib/upload-client"
+import type { UploadReceipt } from "@/lib/upload-receipts"
+
+export interface UploadProgress {
+  // Zero-based index of the file currently uploading
+  fileIndex: number
+  fileCount: number
+  fileName: string
+  // Totals across every file in the submission
+  bytesUploaded: number
+  bytesTotal: number
+  // Undefined until there's enough data for an estimate
+  secondsRemaining?: number
+  isPaused: boolean
+}
+
+type UploadState = "idle" | "uploading" | "paused" | "cancelled"
+
+export interface UploadedFiles {
+  attachments: ProofAttachmentInput[]
+  // Receipts for every stored file and thumbnail, needed to discard them if the proof isn't saved
+  receipts: UploadReceipt[]
+}
+
+// How often the transfer rate estimate is refreshed, and how much weight a new sample gets
+const RATE_SAMPLE_MS = 1000
+const RATE_SMOOTHING = 0.3
+
+// A missing thumbnail only costs the preview, so failures here never fail the submission
+async function uploadThumbnail(file: File, upload: UploadReceipt) {
+  const thumbnail = await createThumbnail(file).catch(() => null)
+  if (!thumbnail) return undefined
+
+  return (await uploadProofFile(thumbnail, { thumbnailOf: upload })).upload
+}
+
+// Uploads a submission's files one after another, with pause, resume and cancel
+export function useProofUploads() {
+  const [progress, setProgress] = useState<UploadProgress | null>(null)
+
+  const stateRef = useRef<UploadState>("idle")
+  const uploaderRef = useRef<ResumableUploader | null>(null)
+  const resumeRef = useRef<(() => void) | null>(null)
+  const bytesRef = useRef(0)
+  const rateRef = useRef<{ time: number; bytes: number; bytesPerSecond?: number } | null>(null)
+
+  const trackBytes = useCallback((bytesUploaded: number, bytesTotal: number) => {
+    const now = performance.now()
+    const sample = rateRef.current
+    bytesRef.current = bytesUploaded
+
+    if (!sample) {
+      rateRef.current = { time: now, bytes: bytesUploaded }
+    } else if (now - sample.time >= RATE_SAMPLE_MS) {
+      const current = (bytesUploaded - sample.bytes) / ((now - sample.time) / 1000)
+      const bytesPerSecond =
+        sample.bytesPerSecond === undefined
+          ? current
+          : sample.bytesPerSecond * (1 - RATE_SMOOTHING) + current * RATE_SMOOTHING
+      rateRef.current = { time: now, bytes: bytesUploaded, bytesPerSecond }
+    }
+
+    const bytesPerSecond = rateRef.current?.bytesPerSecond
+    setProgress((previous) =>
+      previous
+        ? {
+            ...previous,
+            bytesUploaded,
+            secondsRemaining: bytesPerSecond ? (bytesTotal - bytesUploaded) / bytesPerSecond : undefined,
+          }
+        : previous,
+    )
+  }, [])
+
+  // Resolves with the uploaded attachments in order, or null if the upload was cancelled
+  const uploadFiles = useCallback(
+    async (files: File[]): Promise<UploadedFiles | null> => {
+      const bytesTotal = files.reduce((total, file) => total + file.size, 0)
+      const attachments: ProofAttachmentInput[] = []
+      const receipts: UploadReceipt[] = []
+      let bytesDone = 0
+
+      stateRef.current = "uploading"
+      rateRef.current = null
+
+      // Files finished before a cancel or failure would otherwise sit in storage until swept
+      const discardCompleted = () => {
+        if (receipts.length > 0) {
+          void discardUploadedFiles(receipts)
+        }
+      }
+
+      // pause() and cancel() change the state while this awaits; the casts stop TypeScript narrowing it
+      const isCancelled = () => (stateRef.current as UploadState) === "cancelled"
+      const waitWhilePaused = async () => {
+        if ((stateRef.current as UploadState) === "paused") {
+          await new Promise<void>((resolve) => (resumeRef.current = resolve))
+        }
+      }
+
+      try {
+        for (const [fileIndex, file] of files.entries()) {
+          setProgress({
+            fileIndex,
+            fileCount: files.length,
+            fileName: file.name,
+            bytesUploaded: bytesDone,
+            bytesTotal,
+            isPaused: (stateRef.current as UploadState) === "paused",
+          })
+
+          const uploader = createResumableUploader(file, {
+            onProgress: (bytesUploaded) => trackBytes(bytesDone + bytesUploaded, bytesTotal),
+          })
+          uploaderRef.current = uploader
+
+          // Pausing aborts the request; starting again picks up from the server's offset
+          let upload: UploadReceipt
+          for (;;) {
+            await waitWhilePaused()
+
+            if (isCancelled()) {
+              await uploader.terminate()
+              discardCompleted()
+              return null
+            }
+
+            try {
+              upload = await uploader.start()
+              break
+            } catch (error) {
+              if ((error as Error).name !== "AbortError") {
+                discardCompleted()
+                throw new Error(`${file.name}: ${error instanceof Error ? error.message : "Failed to upload file"}`)
+              }
+            }
+          }
+          receipts.push(upload)
+
+          // A cancel can land while the last chunk is confirmed, when abort() has nothing left to stop
+          if (isCancelled()) {
+            discardCompleted()
+            return null
+          }
+
+          const thumbnail = await uploadThumbnail(file, upload)
+          if (thumbnail) receipts.push(thumbnail)
+
+          attachments.push({
+            fileName: file.name,
+            filePath: upload.path,
+            fileSize: file.size,
+            fileType: file.type,
+            thumbnailPath: thumbnail?.path,
+          })
+          bytesDone += file.size
+
+          // The thumbnail isn't sent by the uploader pause() and cancel() act on, so they're honoured once
+          // it's done, before the next file or the submission goes ahead
+          await waitWhilePaused()
+          if (isCancelled()) {
+            discardCompleted()
+            return null
+          }
+        }
+
+        return { attachments, receipts }
+      } finally {
+        stateRef.current = "idle"
+        uploaderRef.current = null
+        resumeRef.current = null
+        setProgress(null)
+      }
+    },
+    [trackBytes],
+  )
+
+  const pause = useCallback(() => {
+    if (stateRef.current !== "uploading") return
+
+    stateRef.current = "paused"
+    uploaderRef.current?.abort()
+    setProgress((previous) => (previous ? { ...previous, isPaused: true, secondsRemaining: undefined } : previous))
+  }, [])
+
+  const resume = useCallback(() => {
+    if (stateRef.current !== "paused") return
+
+    stateRef.current = "uploading"
+    // Time spent paused shouldn't drag the rate down, so start a fresh sample
+    rateRef.current = {
+      time: performance.now(),
+      bytes: bytesRef.current,
+      bytesPerSecond: rateRef.current?.bytesPerSecond,
+    }
+    setProgress((previous) => (previous ? { ...previous, isPaused: false } : previous))
+    resumeRef.current?.()
+  }, [])
+
+  const cancel = useCallback(() => {
+    if (stateRef.current !== "uploading" && stateRef.current !== "paused") return
+
+    stateRef.current = "cancelled"
+    uploaderRef.current?.abort()
+    resumeRef.current?.()
+  }, [])
+
+  return { progress, uploadFiles, pause, resume, cancel }
+}
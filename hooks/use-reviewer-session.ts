@@ -0,0 +1,64 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { createClient, type Session, type SupabaseClient } from "@supabase/supabase-js"
+
+let authClient: SupabaseClient | null | undefined
+
+// Created on first use and only when Supabase Auth is configured, since the app also runs without it
+function getAuthClient() {
+  if (authClient === undefined) {
+    const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+    const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+    authClient = url && anonKey ? createClient(url, anonKey) : null
+  }
+  return authClient
+}
+
+// The reviewer's Supabase Auth session. Reviewers sign in with a link sent to their email; whether
+// they may review is decided on the server, see getReviewerId. Without Supabase Auth there is no
+// session, and isAuthConfigured is false.
+export function useReviewerSession() {
+  const [session, setSession] = useState<Session | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const isAuthConfigured = getAuthClient() !== null
+
+  useEffect(() => {
+    const client = getAuthClient()
+    if (!client) {
+      setIsLoading(false)
+      return
+    }
+
+    let active = true
+    void client.auth.getSession().then(({ data }) => {
+      if (!active) return
+      setSession(data.session)
+      setIsLoading(false)
+    })
+
+    const { data } = client.auth.onAuthStateChange((_event, nextSession) => setSession(nextSession))
+    return () => {
+      active = false
+      data.subscription.unsubscribe()
+    }
+  }, [])
+
+  // Resolves to an error message, or undefined once the email is on its way
+  const signIn = useCallback(async (email: string) => {
+    const client = getAuthClient()
+    if (!client) return "Reviewer sign-in is not configured"
+
+    const { error } = await client.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: window.location.href, shouldCreateUser: false },
+    })
+    return error?.message
+  }, [])
+
+  const signOut = useCallback(async () => {
+    await getAuthClient()?.auth.signOut()
+  }, [])
+
+  return { session, isLoading, isAuthConfigured, signIn, signOut }
+}
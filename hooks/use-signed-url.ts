@@ -0,0 +1,110 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { getSignedFileUrl } from "@/lib/supabase-actions"
+
+// Fetch a replacement this long before a URL expires, so there's always a valid one at hand
+const REFRESH_MARGIN_MS = 60 * 1000
+
+interface SignedUrlState {
+  filePath?: string
+  url?: string
+  expiresAt?: string
+  error?: string
+}
+
+// Shared by every hook, so a URL signed ahead of time, e.g. for the next file in a gallery, is
+// reused once that file is shown
+const signedUrls = new Map<string, Promise<{ url?: string; expiresAt?: string; error?: string }>>()
+
+const isFresh = (expiresAt: string | undefined) =>
+  expiresAt !== undefined && new Date(expiresAt).getTime() - Date.now() > REFRESH_MARGIN_MS
+
+async function signFileUrl(filePath: string) {
+  const cached = signedUrls.get(filePath)
+  if (cached) {
+    const result = await cached.catch(() => undefined)
+    if (result?.url && isFresh(result.expiresAt)) return result
+  }
+
+  const request = getSignedFileUrl(filePath)
+  signedUrls.set(filePath, request)
+  // Failures aren't kept, so the next attempt asks again
+  const forget = () => {
+    if (signedUrls.get(filePath) === request) signedUrls.delete(filePath)
+  }
+
+  try {
+    const result = await request
+    if (!result.url) forget()
+    return result
+  } catch (error) {
+    // The action itself failed, e.g. the network dropped or the server restarted
+    forget()
+    throw error
+  }
+}
+
+// Signs a file's URL ahead of its use; resolves to undefined if it can't be signed
+export async function prefetchSignedUrl(filePath: string) {
+  return (await signFileUrl(filePath).catch(() => undefined))?.url
+}
+
+// Signed URL for a stored proof file, kept fresh for as long as the component is mounted.
+// Pass undefined to skip signing, e.g. while a viewer is closed.
+export function useSignedUrl(filePath: string | undefined) {
+  const [state, setState] = useState<SignedUrlState>({})
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    if (!filePath) return
+
+    let cancelled = false
+
+    signFileUrl(filePath)
+      .then((result) => {
+        if (cancelled) return
+
+        if (result.url) {
+          setState({ filePath, url: result.url, expiresAt: result.expiresAt })
+        } else {
+          console.error("Failed to sign file URL:", result.error)
+          setState({ filePath, error: result.error ?? "Failed to load file" })
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return
+
+        console.error("Failed to sign file URL:", error)
+        setState({ filePath, error: "Failed to load file" })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [filePath, version])
+
+  useEffect(() => {
+    if (!state.expiresAt) return
+
+    const delay = Math.max(0, new Date(state.expiresAt).getTime() - Date.now() - REFRESH_MARGIN_MS)
+    const timer = setTimeout(() => setVersion((current) => current + 1), delay)
+    return () => clearTimeout(timer)
+  }, [state.expiresAt])
+
+  // For when a URL was rejected before its expected expiry, e.g. after a server restart
+  const refresh = useCallback(() => {
+    if (filePath) signedUrls.delete(filePath)
+    setVersion((current) => current + 1)
+  }, [filePath])
+
+  // A URL for some other file is never handed out, even while the new one is loading
+  const current = filePath && state.filePath === filePath ? state : {}
+
+  return {
+    url: current.url,
+    error: current.error,
+    isLoading: Boolean(filePath) && !current.url && !current.error,
+    refresh,
+  }
+}
@@ -0,0 +1,350 @@
+"use client"
+
+import type React from "react"
+
+import { useCallback, useEffect, useRef, useState } from "react"
+
+interface Point {
+  x: number
+  y: number
+}
+
+interface ZoomPanOptions {
+  // Wheel, pinch and double-click zoom; off for content that can't be zoomed
+  zoom: boolean
+  // Dragging moves zoomed content. Without it the wheel keeps scrolling and only zooms with Ctrl
+  // held, which is also how trackpad pinches arrive.
+  pan: boolean
+  // Degrees clockwise; the pan limits follow the rotated content
+  rotation: number
+  // Scale at which the content shows at its natural size, the other end of the double-click toggle
+  getActualSizeScale?: () => number | undefined
+  // Layout size of the content when fitted, before any zoom or rotation
+  getContentSize?: () => { width: number; height: number } | undefined
+}
+
+type Gesture =
+  | { type: "pan"; start: Point; startPan: Point; samples: { time: number; point: Point }[] }
+  | { type: "pinch"; startDistance: number; startMidpoint: Point; startScale: number; startPan: Point }
+
+export const MIN_SCALE = 0.25
+export const MAX_SCALE = 8
+const ZOOM_STEP = 0.25
+
+// Zoom per pixel scrolled; trackpad pinches report small deltas, so they get a higher rate
+const WHEEL_ZOOM_RATE = 0.002
+const PINCH_WHEEL_ZOOM_RATE = 0.01
+const WHEEL_LINE_HEIGHT = 16
+
+// A tap moves less than TAP_SLOP; two taps this close in time and place make a double tap
+const TAP_SLOP = 6
+const DOUBLE_TAP_MS = 300
+const DOUBLE_TAP_DISTANCE = 30
+
+// Share of the release velocity kept per 16ms frame, and the speed in px/ms at which gliding stops
+const FRICTION = 0.92
+const MIN_VELOCITY = 0.02
+// Only movement this recent counts towards the release velocity, so a pause before letting go stops dead
+const VELOCITY_WINDOW_MS = 100
+
+const ORIGIN: Point = { x: 0, y: 0 }
+
+// Elements inside the viewer that handle their own pointer input
+const INTERACTIVE_SELECTOR = "button, a, input, textarea, select, video, iframe"
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE)
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y)
+
+const midpoint = (a: Point, b: Point) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 })
+
+// Pan that keeps the content under `anchor` in place while the scale goes from `from` to `to`.
+// Points are relative to the container's center, where the fitted content sits.
+const anchorPan = (pan: Point, anchor: Point, from: number, to: number) => ({
+  x: anchor.x - (to / from) * (anchor.x - pan.x),
+  y: anchor.y - (to / from) * (anchor.y - pan.y),
+})
+
+// Zoom and pan state for the viewer's content, driven by the toolbar buttons, the wheel and pointer
+// gestures. Content is expected to be centered in the container and transformed with
+// translate(pan) scale(scale) around its center.
+export function useZoomPan(options: ZoomPanOptions) {
+  const [container, setContainer] = useState<HTMLElement | null>(null)
+  const [view, setView] = useState({ scale: 1, pan: ORIGIN, smooth: false })
+  const [isDragging, setIsDragging] = useState(false)
+
+  // Gesture handlers read the latest values from refs, as pointer events outpace re-renders
+  const containerRef = useRef<HTMLElement | null>(null)
+  const viewRef = useRef({ scale: 1, pan: ORIGIN })
+  const optionsRef = useRef(options)
+  const pointersRef = useRef(new Map<number, Point>())
+  const gestureRef = useRef<Gesture | null>(null)
+  const tapRef = useRef<{ start: Point; moved: boolean } | null>(null)
+  const lastTapRef = useRef<{ time: number; point: Point } | null>(null)
+  const frameRef = useRef<number | undefined>(undefined)
+
+  useEffect(() => {
+    optionsRef.current = options
+  })
+
+  const attachContainer = useCallback((element: HTMLElement | null) => {
+    containerRef.current = element
+    setContainer(element)
+  }, [])
+
+  const toLocal = useCallback((event: { clientX: number; clientY: number }) => {
+    const rect = containerRef.current?.getBoundingClientRect()
+    if (!rect) return ORIGIN
+    return { x: event.clientX - rect.left - rect.width / 2, y: event.clientY - rect.top - rect.height / 2 }
+  }, [])
+
+  // Content can be dragged until its edges reach the container's; content smaller than the
+  // container stays centered
+  const clampPan = useCallback((pan: Point, scale: number) => {
+    const { pan: canPan, rotation, getContentSize } = optionsRef.current
+    const container = containerRef.current
+    if (!canPan || !container) return ORIGIN
+
+    const bounds = { width: container.clientWidth, height: container.clientHeight }
+    const content = getContentSize?.() ?? bounds
+    const turned = rotation % 180 !== 0
+    const width = (turned ? content.height : content.width) * scale
+    const height = (turned ? content.width : content.height) * scale
+    const maxX = Math.max(0, (width - bounds.width) / 2)
+    const maxY = Math.max(0, (height - bounds.height) / 2)
+
+    return { x: Math.min(Math.max(pan.x, -maxX), maxX), y: Math.min(Math.max(pan.y, -maxY), maxY) }
+  }, [])
+
+  const update = useCallback(
+    (scale: number, pan: Point, smooth = false) => {
+      const next = { scale, pan: clampPan(pan, scale) }
+      viewRef.current = next
+      setView({ ...next, smooth })
+    },
+    [clampPan],
+  )
+
+  const stopMomentum = useCallback(() => {
+    if (frameRef.current !== undefined) cancelAnimationFrame(frameRef.current)
+    frameRef.current = undefined
+  }, [])
+
+  // Keeps a released drag gliding, slowing down until it stops or meets an edge
+  const startMomentum = useCallback(
+    (initial: Point) => {
+      let velocity = initial
+      let previous: number | undefined
+
+      const step = (time: number) => {
+        const elapsed = previous === undefined ? 16 : time - previous
+        previous = time
+
+        const { scale, pan } = viewRef.current
+        const target = { x: pan.x + velocity.x * elapsed, y: pan.y + velocity.y * elapsed }
+        const next = clampPan(target, scale)
+        const decay = FRICTION ** (elapsed / 16)
+        velocity = {
+          x: next.x === target.x ? velocity.x * decay : 0,
+          y: next.y === target.y ? velocity.y * decay : 0,
+        }
+        update(scale, next)
+
+        frameRef.current = Math.hypot(velocity.x, velocity.y) < MIN_VELOCITY ? undefined : requestAnimationFrame(step)
+      }
+
+      frameRef.current = requestAnimationFrame(step)
+    },
+    [clampPan, update],
+  )
+
+  useEffect(() => stopMomentum, [stopMomentum])
+
+  const zoomTo = useCallback(
+    (scale: number, anchor = ORIGIN, smooth = false) => {
+      const { scale: from, pan } = viewRef.current
+      const to = clampScale(scale)
+      update(to, anchorPan(pan, anchor, from, to), smooth)
+    },
+    [update],
+  )
+
+  const zoomIn = useCallback(() => zoomTo(viewRef.current.scale + ZOOM_STEP, ORIGIN, true), [zoomTo])
+  const zoomOut = useCallback(() => zoomTo(viewRef.current.scale - ZOOM_STEP, ORIGIN, true), [zoomTo])
+
+  const reset = useCallback(() => {
+    stopMomentum()
+    pointersRef.current.clear()
+    gestureRef.current = null
+    tapRef.current = null
+    lastTapRef.current = null
+    setIsDragging(false)
+    update(1, ORIGIN, true)
+  }, [stopMomentum, update])
+
+  // From fitted to natural size at the given point, and from anywhere else back to fitted. Content
+  // that is already shown at its natural size when fitted zooms to 2x instead.
+  const toggleActualSize = useCallback(
+    (anchor: Point) => {
+      if (Math.abs(viewRef.current.scale - 1) > 0.01) {
+        update(1, ORIGIN, true)
+        return
+      }
+      const actual = optionsRef.current.getActualSizeScale?.()
+      zoomTo(actual && Math.abs(actual - 1) > 0.05 ? actual : 2, anchor, true)
+    },
+    [update, zoomTo],
+  )
+
+  // Re-fit the pan limits once the content turns on its side
+  useEffect(() => {
+    update(viewRef.current.scale, viewRef.current.pan)
+  }, [options.rotation, update])
+
+  useEffect(() => {
+    if (!container || !options.zoom) return
+
+    const handleWheel = (event: WheelEvent) => {
+      if (!optionsRef.current.pan && !event.ctrlKey) return
+      event.preventDefault()
+      stopMomentum()
+
+      const delta = event.deltaY * (event.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1)
+      const rate = event.ctrlKey ? PINCH_WHEEL_ZOOM_RATE : WHEEL_ZOOM_RATE
+      zoomTo(viewRef.current.scale * Math.exp(-delta * rate), toLocal(event))
+    }
+
+    // React's wheel listeners are passive, so they can't keep the page from scrolling
+    container.addEventListener("wheel", handleWheel, { passive: false })
+    return () => container.removeEventListener("wheel", handleWheel)
+  }, [container, options.zoom, stopMomentum, toLocal, zoomTo])
+
+  // Picks the gesture for the pointers currently down: two make a pinch, one drags zoomed-in content
+  const beginGesture = useCallback(() => {
+    const [first, second] = [...pointersRef.current.values()]
+    const { scale, pan } = viewRef.current
+
+    if (first && second) {
+      gestureRef.current = {
+        type: "pinch",
+        startDistance: Math.max(distance(first, second), 1),
+        startMidpoint: midpoint(first, second),
+        startScale: scale,
+        startPan: pan,
+      }
+    } else if (first && optionsRef.current.pan && scale > 1) {
+      gestureRef.current = { type: "pan", start: first, startPan: pan, samples: [] }
+    } else {
+      gestureRef.current = null
+    }
+    setIsDragging(gestureRef.current?.type === "pan")
+  }, [])
+
+  const handlePointerDown = useCallback(
+    (event: React.PointerEvent) => {
+      if (!optionsRef.current.zoom || event.button !== 0) return
+      if (event.target instanceof Element && event.target.closest(INTERACTIVE_SELECTOR)) return
+
+      stopMomentum()
+      event.currentTarget.setPointerCapture(event.pointerId)
+      const point = toLocal(event)
+      pointersRef.current.set(event.pointerId, point)
+      tapRef.current = pointersRef.current.size === 1 ? { start: point, moved: false } : null
+      beginGesture()
+    },
+    [beginGesture, stopMomentum, toLocal],
+  )
+
+  const handlePointerMove = useCallback(
+    (event: React.PointerEvent) => {
+      const pointers = pointersRef.current
+      if (!pointers.has(event.pointerId)) return
+
+      const point = toLocal(event)
+      pointers.set(event.pointerId, point)
+      const tap = tapRef.current
+      if (tap && distance(tap.start, point) > TAP_SLOP) tap.moved = true
+
+      const gesture = gestureRef.current
+      if (gesture?.type === "pinch") {
+        const [first, second] = [...pointers.values()]
+        const scale = clampScale(gesture.startScale * (distance(first, second) / gesture.startDistance))
+        const center = midpoint(first, second)
+        const pan = anchorPan(gesture.startPan, gesture.startMidpoint, gesture.startScale, scale)
+        update(scale, { x: pan.x + center.x - gesture.startMidpoint.x, y: pan.y + center.y - gesture.startMidpoint.y })
+      } else if (gesture?.type === "pan") {
+        gesture.samples = [
+          ...gesture.samples.filter((sample) => event.timeStamp - sample.time <= VELOCITY_WINDOW_MS),
+          { time: event.timeStamp, point },
+        ]
+        update(viewRef.current.scale, {
+          x: gesture.startPan.x + point.x - gesture.start.x,
+          y: gesture.startPan.y + point.y - gesture.start.y,
+        })
+      }
+    },
+    [toLocal, update],
+  )
+
+  const endPointer = useCallback(
+    (event: React.PointerEvent, isTap: boolean) => {
+      const pointers = pointersRef.current
+      if (!pointers.delete(event.pointerId)) return
+
+      const gesture = gestureRef.current
+      if (gesture?.type === "pan" && pointers.size === 0) {
+        const recent = gesture.samples.filter((sample) => event.timeStamp - sample.time <= VELOCITY_WINDOW_MS)
+        const first = recent[0]
+        const last = recent[recent.length - 1]
+        const elapsed = last && first ? last.time - first.time : 0
+        if (elapsed > 0) {
+          const velocity = { x: (last.point.x - first.point.x) / elapsed, y: (last.point.y - first.point.y) / elapsed }
+          if (Math.hypot(velocity.x, velocity.y) >= MIN_VELOCITY) startMomentum(velocity)
+        }
+      }
+      // A pinch that loses a finger carries on as a drag with the other
+      beginGesture()
+
+      const tap = tapRef.current
+      if (!isTap || !tap || tap.moved || pointers.size > 0) return
+      tapRef.current = null
+
+      const lastTap = lastTapRef.current
+      if (
+        lastTap &&
+        event.timeStamp - lastTap.time <= DOUBLE_TAP_MS &&
+        distance(lastTap.point, tap.start) <= DOUBLE_TAP_DISTANCE
+      ) {
+        lastTapRef.current = null
+        toggleActualSize(tap.start)
+      } else {
+        lastTapRef.current = { time: event.timeStamp, point: tap.start }
+      }
+    },
+    [beginGesture, startMomentum, toggleActualSize],
+  )
+
+  const handlePointerUp = useCallback((event: React.PointerEvent) => endPointer(event, true), [endPointer])
+  const handlePointerCancel = useCallback((event: React.PointerEvent) => endPointer(event, false), [endPointer])
+
+  return {
+    scale: view.scale,
+    pan: view.pan,
+    // Whether the content should animate to its new transform; off while following a gesture
+    smooth: view.smooth,
+    isDragging,
+    zoomIn,
+    zoomOut,
+    reset,
+    containerProps: {
+      ref: attachContainer,
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerCancel,
+      // The browser's own pinch and double-tap zoom would compete with ours. Content that can't
+      // be panned keeps native scrolling.
+      style: { touchAction: options.zoom ? (options.pan ? "none" : "pan-x pan-y") : undefined },
+    },
+  }
+}
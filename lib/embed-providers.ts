@@ -0,0 +1,215 @@
+// Players for proof links on video and social platforms. Each provider recognizes its own URLs and
+// maps them to the platform's embeddable player, which MediaViewer shows in a sandboxed iframe.
+
+export interface EmbedProvider {
+  id: string
+  name: string
+  // Player URL for a link this provider recognizes, otherwise undefined
+  getEmbedUrl(url: URL): string | undefined
+  // CSS aspect-ratio of the player; posts without a fixed shape get a fixed height instead
+  aspectRatio?: string
+}
+
+export interface LinkEmbed {
+  provider: EmbedProvider
+  embedUrl: string
+}
+
+// Players need scripts and their own storage, but never navigate this app or submit forms. Since the
+// players are cross-origin, allow-same-origin only gives them their own origin back.
+export const EMBED_SANDBOX =
+  "allow-scripts allow-same-origin allow-popups allow-popups-to-escape-sandbox allow-presentation"
+export const EMBED_ALLOW = "autoplay; encrypted-media; fullscreen; picture-in-picture"
+
+// Matches the host and its www./m. variants
+const isHost = (url: URL, ...hosts: string[]) => hosts.includes(url.hostname.toLowerCase().replace(/^(www|m)\./, ""))
+
+const pathParts = (url: URL) => url.pathname.split("/").filter(Boolean)
+
+// YouTube accepts start times as seconds or as e.g. 1h2m3s
+function parseStartSeconds(value: string | null) {
+  if (!value) return undefined
+  if (/^\d+$/.test(value)) return Number(value)
+
+  const match = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/)
+  if (!match || !match[0]) return undefined
+  return Number(match[1] ?? 0) * 3600 + Number(match[2] ?? 0) * 60 + Number(match[3] ?? 0)
+}
+
+const youtube: EmbedProvider = {
+  id: "youtube",
+  name: "YouTube",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    let id: string | undefined
+
+    if (isHost(url, "youtu.be")) {
+      id = parts[0]
+    } else if (isHost(url, "youtube.com", "music.youtube.com", "youtube-nocookie.com")) {
+      id = parts[0] === "watch" ? (url.searchParams.get("v") ?? undefined) : undefined
+      if (["embed", "shorts", "live", "v"].includes(parts[0])) id = parts[1]
+    }
+
+    if (!id || !/^[\w-]{11}$/.test(id)) return undefined
+
+    const start = parseStartSeconds(url.searchParams.get("t") ?? url.searchParams.get("start"))
+    // The no-cookie domain doesn't set tracking cookies until the video is played
+    return `https://www.youtube-nocookie.com/embed/${id}${start ? `?start=${start}` : ""}`
+  },
+}
+
+const vimeo: EmbedProvider = {
+  id: "vimeo",
+  name: "Vimeo",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    let id: string | undefined
+    // Unlisted videos carry a hash that the player needs too
+    let hash = url.searchParams.get("h") ?? undefined
+
+    if (isHost(url, "player.vimeo.com") && parts[0] === "video") {
+      id = parts[1]
+    } else if (isHost(url, "vimeo.com")) {
+      const index = parts.findIndex((part) => /^\d+$/.test(part))
+      if (index >= 0) {
+        id = parts[index]
+        if (parts[index + 1] && /^[0-9a-f]+$/i.test(parts[index + 1])) hash ??= parts[index + 1]
+      }
+    }
+
+    if (!id || !/^\d+$/.test(id)) return undefined
+    return `https://player.vimeo.com/video/${id}${hash ? `?h=${encodeURIComponent(hash)}` : ""}`
+  },
+}
+
+const dailymotion: EmbedProvider = {
+  id: "dailymotion",
+  name: "Dailymotion",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    let id: string | undefined
+
+    if (isHost(url, "dai.ly")) {
+      id = parts[0]
+    } else if (isHost(url, "dailymotion.com")) {
+      id = parts[0] === "video" ? parts[1] : parts[0] === "embed" && parts[1] === "video" ? parts[2] : undefined
+    }
+
+    // Video URLs may have a title slug after the ID
+    id = id?.split("_")[0]
+    if (!id || !/^[a-z0-9]+$/i.test(id)) return undefined
+    return `https://www.dailymotion.com/embed/video/${id}`
+  },
+}
+
+const loom: EmbedProvider = {
+  id: "loom",
+  name: "Loom",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const [kind, id] = pathParts(url)
+    if (!isHost(url, "loom.com") || !["share", "embed"].includes(kind) || !/^[0-9a-f]{32}$/i.test(id ?? "")) {
+      return undefined
+    }
+    return `https://www.loom.com/embed/${id}`
+  },
+}
+
+const streamable: EmbedProvider = {
+  id: "streamable",
+  name: "Streamable",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    const id = parts[0] === "e" ? parts[1] : parts[0]
+    if (!isHost(url, "streamable.com") || !id || !/^[a-z0-9]+$/i.test(id)) return undefined
+    return `https://streamable.com/e/${id}`
+  },
+}
+
+const tiktok: EmbedProvider = {
+  id: "tiktok",
+  name: "TikTok",
+  aspectRatio: "9 / 16",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    const index = parts.indexOf("video")
+    const id = index >= 0 ? parts[index + 1] : undefined
+    if (!isHost(url, "tiktok.com") || !id || !/^\d+$/.test(id)) return undefined
+    return `https://www.tiktok.com/embed/v2/${id}`
+  },
+}
+
+const instagram: EmbedProvider = {
+  id: "instagram",
+  name: "Instagram",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    // Post URLs may be prefixed with the account name
+    const index = parts.findIndex((part) => ["p", "reel", "tv"].includes(part))
+    const code = index >= 0 ? parts[index + 1] : undefined
+    if (!isHost(url, "instagram.com") || !code || !/^[\w-]+$/.test(code)) return undefined
+    return `https://www.instagram.com/${parts[index]}/${code}/embed/`
+  },
+}
+
+const twitter: EmbedProvider = {
+  id: "twitter",
+  name: "X",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    const index = parts.indexOf("status")
+    const id = index >= 0 ? parts[index + 1] : undefined
+    if (!isHost(url, "twitter.com", "x.com", "mobile.twitter.com") || !id || !/^\d+$/.test(id)) return undefined
+    return `https://platform.twitter.com/embed/Tweet.html?id=${id}&dnt=true`
+  },
+}
+
+const facebook: EmbedProvider = {
+  id: "facebook",
+  name: "Facebook",
+  aspectRatio: "16 / 9",
+  getEmbedUrl(url) {
+    const parts = pathParts(url)
+    const isVideo =
+      isHost(url, "fb.watch") ||
+      (isHost(url, "facebook.com") &&
+        (parts.includes("videos") || parts[0] === "reel" || (parts[0] === "watch" && url.searchParams.has("v"))))
+    if (!isVideo) return undefined
+    // Facebook's player takes the post URL itself
+    return `https://www.facebook.com/plugins/video.php?href=${encodeURIComponent(url.toString())}&show_text=false`
+  },
+}
+
+// Checked in order; the first provider that recognizes a link embeds it
+export const EMBED_PROVIDERS: EmbedProvider[] = [
+  youtube,
+  vimeo,
+  dailymotion,
+  loom,
+  streamable,
+  tiktok,
+  instagram,
+  twitter,
+  facebook,
+]
+
+// The player for a proof link, or undefined for links no provider recognizes
+export function resolveEmbed(link: string): LinkEmbed | undefined {
+  let url: URL
+  try {
+    url = new URL(link)
+  } catch {
+    return undefined
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return undefined
+
+  for (const provider of EMBED_PROVIDERS) {
+    const embedUrl = provider.getEmbedUrl(url)
+    if (embedUrl) return { provider, embedUrl }
+  }
+  return undefined
+}
@@ -0,0 +1,424 @@
+// Reads the capture details reviewers care about (when, with what device, where) from the EXIF and
+// XMP metadata embedded in JPEG, PNG, WebP, TIFF and HEIF images. Only the leading bytes are
+// needed, since encoders write metadata ahead of the pixel data.
+
+// Leading bytes worth scanning; an EXIF or XMP segment is at most 64KB each
+export const METADATA_SCAN_LENGTH = 256 * 1024
+
+export interface MediaMetadata {
+  // Local capture time as "YYYY-MM-DDTHH:mm:ss", with a UTC offset when the camera recorded one
+  capturedAt?: string
+  cameraMake?: string
+  cameraModel?: string
+  lens?: string
+  software?: string
+  // Stored pixel dimensions, before orientation is applied
+  width?: number
+  height?: number
+  // EXIF orientation, 1 (upright) to 8
+  orientation?: number
+  gps?: {
+    latitude: number
+    longitude: number
+    // Meters above sea level
+    altitude?: number
+  }
+}
+
+const decoder = new TextDecoder()
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+function indexOfBytes(bytes: Uint8Array, pattern: number[], from = 0) {
+  outer: for (let index = from; index <= bytes.length - pattern.length; index++) {
+    for (let offset = 0; offset < pattern.length; offset++) {
+      if (bytes[index + offset] !== pattern[offset]) continue outer
+    }
+    return index
+  }
+  return -1
+}
+
+const cleanText = (value: unknown) =>
+  typeof value === "string" ? value.replace(/\0+$/, "").trim() || undefined : undefined
+
+// EXIF dates look like "2024:05:01 14:03:22"; XMP dates are already ISO 8601
+function normalizeDate(value: string | undefined, offset?: string) {
+  const match = value?.match(/^(\d{4})[:-](\d{2})[:-](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?(Z|[+-]\d{2}:\d{2})?/)
+  if (!match || match[1] === "0000") return undefined
+
+  const [, year, month, day, hour, minute, second = "00", zone] = match
+  const timeZone = zone ?? (offset && /^(Z|[+-]\d{2}:\d{2})$/.test(offset) ? offset : "")
+  return `${year}-${month}-${day}T${hour}:${minute}:${second}${timeZone}`
+}
+
+const isOrientation = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value >= 1 && value <= 8
+
+const isDimension = (value: unknown): value is number => typeof value === "number" && value > 0
+
+type TagValue = string | number | number[]
+
+// Byte size of each TIFF field type that can hold the values read here
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 }
+
+// IFD0, Exif and GPS tags that are read; everything else is skipped
+export const EXIF_TAGS = {
+  imageWidth: 0x0100,
+  imageHeight: 0x0101,
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  software: 0x0131,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  dateTimeDigitized: 0x9004,
+  offsetTimeOriginal: 0x9011,
+  pixelXDimension: 0xa002,
+  pixelYDimension: 0xa003,
+  lensMake: 0xa433,
+  lensModel: 0xa434,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+}
+
+// Reads one IFD of a TIFF structure into a tag -> value map. Offsets are relative to the TIFF header.
+function readIfd(view: DataView, offset: number, littleEndian: boolean) {
+  const tags = new Map<number, TagValue>()
+  if (offset < 8 || offset + 2 > view.byteLength) return tags
+
+  const count = view.getUint16(offset, littleEndian)
+  for (let index = 0; index < count; index++) {
+    const entry = offset + 2 + index * 12
+    if (entry + 12 > view.byteLength) break
+
+    const tag = view.getUint16(entry, littleEndian)
+    const type = view.getUint16(entry + 2, littleEndian)
+    const valueCount = view.getUint32(entry + 4, littleEndian)
+    const size = TYPE_SIZES[type]
+    if (!size || valueCount === 0) continue
+
+    const valueOffset = size * valueCount <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+    if (valueOffset + size * valueCount > view.byteLength) continue
+
+    if (type === 2 || type === 7) {
+      const bytes = new Uint8Array(view.buffer, view.byteOffset + valueOffset, valueCount)
+      tags.set(tag, type === 2 ? decoder.decode(bytes) : Array.from(bytes))
+      continue
+    }
+
+    const values: number[] = []
+    for (let item = 0; item < Math.min(valueCount, 16); item++) {
+      const position = valueOffset + item * size
+      if (type === 1) values.push(view.getUint8(position))
+      else if (type === 3) values.push(view.getUint16(position, littleEndian))
+      else if (type === 4) values.push(view.getUint32(position, littleEndian))
+      else if (type === 9) values.push(view.getInt32(position, littleEndian))
+      else {
+        const read = type === 5 ? view.getUint32.bind(view) : view.getInt32.bind(view)
+        const denominator = read(position + 4, littleEndian)
+        values.push(denominator === 0 ? 0 : read(position, littleEndian) / denominator)
+      }
+    }
+    tags.set(tag, values.length === 1 ? values[0] : values)
+  }
+
+  return tags
+}
+
+// Degrees, minutes and seconds to signed decimal degrees
+function toDegrees(value: TagValue | undefined, ref: TagValue | undefined) {
+  if (!Array.isArray(value) || value.length < 3) return undefined
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600
+  const sign = typeof ref === "string" && /^[SW]/i.test(ref) ? -1 : 1
+  return Number.isFinite(degrees) ? sign * degrees : undefined
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+function parseTiff(bytes: Uint8Array): MediaMetadata {
+  if (bytes.length < 8) return {}
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const byteOrder = ascii(bytes, 0, 2)
+  if (byteOrder !== "II" && byteOrder !== "MM") return {}
+  const littleEndian = byteOrder === "II"
+  if (view.getUint16(2, littleEndian) !== 42) return {}
+
+  const ifd0 = readIfd(view, view.getUint32(4, littleEndian), littleEndian)
+  const exif = readIfd(view, Number(ifd0.get(EXIF_TAGS.exifIfd) ?? 0), littleEndian)
+  const gps = readIfd(view, Number(ifd0.get(EXIF_TAGS.gpsIfd) ?? 0), littleEndian)
+
+  const metadata: MediaMetadata = {
+    capturedAt: normalizeDate(
+      cleanText(exif.get(EXIF_TAGS.dateTimeOriginal)) ??
+        cleanText(exif.get(EXIF_TAGS.dateTimeDigitized)) ??
+        cleanText(ifd0.get(EXIF_TAGS.dateTime)),
+      cleanText(exif.get(EXIF_TAGS.offsetTimeOriginal)),
+    ),
+    cameraMake: cleanText(ifd0.get(EXIF_TAGS.make)),
+    cameraModel: cleanText(ifd0.get(EXIF_TAGS.model)),
+    lens: cleanText(exif.get(EXIF_TAGS.lensModel)) ?? cleanText(exif.get(EXIF_TAGS.lensMake)),
+    software: cleanText(ifd0.get(EXIF_TAGS.software)),
+  }
+
+  const width = exif.get(EXIF_TAGS.pixelXDimension) ?? ifd0.get(EXIF_TAGS.imageWidth)
+  const height = exif.get(EXIF_TAGS.pixelYDimension) ?? ifd0.get(EXIF_TAGS.imageHeight)
+  if (isDimension(width) && isDimension(height)) {
+    metadata.width = width
+    metadata.height = height
+  }
+
+  const orientation = ifd0.get(EXIF_TAGS.orientation)
+  if (isOrientation(orientation)) metadata.orientation = orientation
+
+  const latitude = toDegrees(gps.get(EXIF_TAGS.gpsLatitude), gps.get(EXIF_TAGS.gpsLatitudeRef))
+  const longitude = toDegrees(gps.get(EXIF_TAGS.gpsLongitude), gps.get(EXIF_TAGS.gpsLongitudeRef))
+  if (latitude !== undefined && longitude !== undefined && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180) {
+    const altitude = gps.get(EXIF_TAGS.gpsAltitude)
+    const belowSeaLevel = gps.get(EXIF_TAGS.gpsAltitudeRef) === 1
+    metadata.gps = {
+      latitude: round(latitude, 6),
+      longitude: round(longitude, 6),
+      altitude: typeof altitude === "number" ? round(belowSeaLevel ? -altitude : altitude, 1) : undefined,
+    }
+  }
+
+  return metadata
+}
+
+// XMP is RDF/XML; properties appear either as attributes or as elements
+function readXmpProperty(xmp: string, name: string) {
+  const match =
+    xmp.match(new RegExp(`${name}="([^"]*)"`)) ??
+    xmp.match(new RegExp(`<${name}>(?:\\s*<rdf:(?:Alt|Seq|Bag)>\\s*<rdf:li[^>]*>)?([^<]*)<`))
+  return cleanText(match?.[1])
+}
+
+// XMP GPS coordinates look like "51,30.1234N" or "51,30,7.4N"
+function parseXmpCoordinate(value: string | undefined) {
+  const match = value?.match(/^(\d+),(\d+(?:\.\d+)?)(?:,(\d+(?:\.\d+)?))?([NSEW])$/i)
+  if (!match) return undefined
+  const [, degrees, minutes, seconds = "0", ref] = match
+  return toDegrees([Number(degrees), Number(minutes), Number(seconds)], ref)
+}
+
+function parseXmp(xmp: string): MediaMetadata {
+  const number = (name: string) => {
+    const value = Number(readXmpProperty(xmp, name))
+    return Number.isFinite(value) ? value : undefined
+  }
+
+  const metadata: MediaMetadata = {
+    capturedAt: normalizeDate(
+      readXmpProperty(xmp, "exif:DateTimeOriginal") ??
+        readXmpProperty(xmp, "photoshop:DateCreated") ??
+        readXmpProperty(xmp, "xmp:CreateDate"),
+    ),
+    cameraMake: readXmpProperty(xmp, "tiff:Make"),
+    cameraModel: readXmpProperty(xmp, "tiff:Model"),
+    lens: readXmpProperty(xmp, "exifEX:LensModel") ?? readXmpProperty(xmp, "aux:Lens"),
+    software: readXmpProperty(xmp, "xmp:CreatorTool"),
+  }
+
+  const width = number("exif:PixelXDimension") ?? number("tiff:ImageWidth")
+  const height = number("exif:PixelYDimension") ?? number("tiff:ImageLength")
+  if (isDimension(width) && isDimension(height)) {
+    metadata.width = width
+    metadata.height = height
+  }
+
+  const orientation = number("tiff:Orientation")
+  if (isOrientation(orientation)) metadata.orientation = orientation
+
+  const latitude = parseXmpCoordinate(readXmpProperty(xmp, "exif:GPSLatitude"))
+  const longitude = parseXmpCoordinate(readXmpProperty(xmp, "exif:GPSLongitude"))
+  if (latitude !== undefined && longitude !== undefined) {
+    metadata.gps = { latitude: round(latitude, 6), longitude: round(longitude, 6) }
+  }
+
+  return metadata
+}
+
+const XMP_START = Array.from("<x:xmpmeta", (char) => char.charCodeAt(0))
+const XMP_END = Array.from("</x:xmpmeta>", (char) => char.charCodeAt(0))
+
+// Large XMP can be split across several packets, e.g. JPEG's extended XMP
+function findXmpPackets(bytes: Uint8Array) {
+  const packets: Uint8Array[] = []
+  let start = indexOfBytes(bytes, XMP_START)
+
+  while (start !== -1) {
+    const end = indexOfBytes(bytes, XMP_END, start)
+    if (end === -1) break
+    packets.push(bytes.subarray(start, end + XMP_END.length))
+    start = indexOfBytes(bytes, XMP_START, end)
+  }
+
+  return packets
+}
+
+// EXIF blocks are often prefixed with "Exif\0\0" ahead of the TIFF header
+function stripExifPrefix(bytes: Uint8Array) {
+  return ascii(bytes, 0, 6) === "Exif\0\0" ? bytes.subarray(6) : bytes
+}
+
+interface ImageSegments {
+  exif?: Uint8Array
+  width?: number
+  height?: number
+}
+
+function readJpeg(bytes: Uint8Array): ImageSegments {
+  const segments: ImageSegments = {}
+  let offset = 2
+
+  while (offset + 4 <= bytes.length) {
+    if (bytes[offset] !== 0xff) break
+    const marker = bytes[offset + 1]
+    // Fill bytes and markers without a length
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+    if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+      offset += 2
+      continue
+    }
+    // Start of scan: only compressed pixel data follows
+    if (marker === 0xd9 || marker === 0xda) break
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const data = bytes.subarray(offset + 4, offset + 2 + length)
+
+    if (marker === 0xe1 && ascii(data, 0, 6) === "Exif\0\0" && !segments.exif) {
+      segments.exif = data.subarray(6)
+    }
+
+    // Start of frame markers carry the dimensions; C4, C8 and CC are other tables
+    if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker) && data.length >= 5) {
+      segments.height = (data[1] << 8) | data[2]
+      segments.width = (data[3] << 8) | data[4]
+    }
+
+    offset += 2 + length
+  }
+
+  return segments
+}
+
+function readPng(bytes: Uint8Array): ImageSegments {
+  const segments: ImageSegments = {}
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 8
+
+  while (offset + 8 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = ascii(bytes, offset + 4, 4)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+
+    if (type === "IHDR" && data.length >= 8) {
+      segments.width = view.getUint32(offset + 8)
+      segments.height = view.getUint32(offset + 12)
+    } else if (type === "eXIf") {
+      segments.exif = stripExifPrefix(data)
+    } else if (type === "IDAT" || type === "IEND") {
+      break
+    }
+
+    offset += 12 + length
+  }
+
+  return segments
+}
+
+function readWebp(bytes: Uint8Array): ImageSegments {
+  const segments: ImageSegments = {}
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, 4)
+    const length = view.getUint32(offset + 4, true)
+    const data = bytes.subarray(offset + 8, offset + 8 + length)
+
+    if (type === "VP8X" && data.length >= 10) {
+      segments.width = 1 + (data[4] | (data[5] << 8) | (data[6] << 16))
+      segments.height = 1 + (data[7] | (data[8] << 8) | (data[9] << 16))
+    } else if (type === "VP8 " && data.length >= 10 && !segments.width) {
+      segments.width = (data[6] | (data[7] << 8)) & 0x3fff
+      segments.height = (data[8] | (data[9] << 8)) & 0x3fff
+    } else if (type === "VP8L" && data.length >= 5 && data[0] === 0x2f && !segments.width) {
+      const bits = data[1] | (data[2] << 8) | (data[3] << 16) | (data[4] << 24)
+      segments.width = (bits & 0x3fff) + 1
+      segments.height = ((bits >> 14) & 0x3fff) + 1
+    } else if (type === "EXIF") {
+      segments.exif = stripExifPrefix(data)
+    }
+
+    // Chunks are padded to an even length
+    offset += 8 + length + (length % 2)
+  }
+
+  return segments
+}
+
+// HEIF keeps EXIF in an item whose data starts with an offset to the TIFF header, normally right
+// after "Exif\0\0"; finding that marker is simpler than walking the item location boxes
+function findExif(bytes: Uint8Array): ImageSegments {
+  const marker = indexOfBytes(bytes, [0x45, 0x78, 0x69, 0x66, 0x00, 0x00])
+  return marker === -1 ? {} : { exif: bytes.subarray(marker + 6) }
+}
+
+function readSegments(bytes: Uint8Array, fileType: string): ImageSegments {
+  if (fileType === "image/jpeg") return readJpeg(bytes)
+  if (fileType === "image/png") return readPng(bytes)
+  if (fileType === "image/webp") return readWebp(bytes)
+  if (fileType === "image/tiff") return { exif: bytes }
+  return findExif(bytes)
+}
+
+// Locates the EXIF (TIFF structure) and XMP blocks of an image. Both are views into bytes, so
+// changes made through them change the image itself.
+export function findMetadataBlocks(bytes: Uint8Array, fileType: string): { exif?: Uint8Array; xmp: Uint8Array[] } {
+  return { exif: readSegments(bytes, fileType).exif, xmp: findXmpPackets(bytes) }
+}
+
+// Returns the metadata found in an image's leading bytes, or undefined if there is none. fileType is
+// the sniffed type, so the container is parsed as what it really is.
+export function extractImageMetadata(bytes: Uint8Array, fileType: string): MediaMetadata | undefined {
+  let segments: ImageSegments
+  let exif: MediaMetadata
+  let xmp: MediaMetadata
+  try {
+    segments = readSegments(bytes, fileType)
+    exif = segments.exif ? parseTiff(segments.exif) : {}
+    const [xmpPacket] = findXmpPackets(bytes)
+    xmp = xmpPacket ? parseXmp(decoder.decode(xmpPacket)) : {}
+  } catch {
+    // Truncated or malformed metadata is common and never worth failing an upload over
+    return undefined
+  }
+
+  // EXIF is written by the camera itself, so it wins over XMP added by editing software
+  const metadata: MediaMetadata = { ...xmp }
+  for (const [key, value] of Object.entries(exif)) {
+    if (value !== undefined) Object.assign(metadata, { [key]: value })
+  }
+
+  // The container's own dimensions are authoritative, since editors often leave stale EXIF sizes
+  if (isDimension(segments.width) && isDimension(segments.height)) {
+    metadata.width = segments.width
+    metadata.height = segments.height
+  }
+
+  const entries = Object.entries(metadata).filter(([, value]) => value !== undefined)
+  return entries.length > 0 ? (Object.fromEntries(entries) as MediaMetadata) : undefined
+}
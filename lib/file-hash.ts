@@ -0,0 +1,20 @@
+import { sha256 } from "@noble/hashes/sha2.js"
+import { bytesToHex } from "@noble/hashes/utils.js"
+
+// Files up to this size are hashed in one go; larger ones are read a slice at a time so a long video
+// never has to sit in memory whole
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024
+
+// Hex SHA-256 of a file, computed in the browser to match the hash the server stores
+export async function hashFile(file: Blob) {
+  if (file.size <= HASH_CHUNK_SIZE) {
+    return bytesToHex(new Uint8Array(await crypto.subtle.digest("SHA-256", await file.arrayBuffer())))
+  }
+
+  // Web Crypto can only digest a whole buffer at once, so larger files are hashed incrementally
+  const hash = sha256.create()
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()))
+  }
+  return bytesToHex(hash.digest())
+}
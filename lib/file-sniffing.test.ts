@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest"
+import { matchesClaimedType, sniffFileType } from "./file-sniffing"
+
+const bytes = (...parts: (string | number[])[]) =>
+  new Uint8Array(
+    parts.flatMap((part) => (typeof part === "string" ? [...part].map((char) => char.charCodeAt(0)) : part)),
+  )
+
+// An ISO base media file starting with an ftyp box of the given major brand
+const ftyp = (brand: string) => bytes([0, 0, 0, 0x18], "ftyp", brand, [0, 0, 0, 0])
+
+describe("sniffFileType", () => {
+  it.each([
+    ["image/jpeg", bytes([0xff, 0xd8, 0xff, 0xe0])],
+    ["image/png", bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+    ["image/gif", bytes("GIF89a")],
+    ["image/webp", bytes("RIFF", [0, 0, 0, 0], "WEBP")],
+    ["image/tiff", bytes([0x49, 0x49, 0x2a, 0x00])],
+    ["video/x-msvideo", bytes("RIFF", [0, 0, 0, 0], "AVI ")],
+    ["video/webm", bytes([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x84], "webm")],
+    ["video/x-matroska", bytes([0x1a, 0x45, 0xdf, 0xa3], [0x42, 0x82, 0x88], "matroska")],
+    ["video/ogg", bytes("OggS")],
+    ["application/pdf", bytes("%PDF-1.7")],
+  ])("recognises %s", (type, data) => {
+    expect(sniffFileType(data)).toBe(type)
+  })
+
+  it.each([
+    ["video/mp4", "isom"],
+    ["video/quicktime", "qt  "],
+    ["image/heic", "heic"],
+    ["image/avif", "avif"],
+    ["video/3gpp", "3gp5"],
+  ])("tells %s apart by its ftyp brand", (type, brand) => {
+    expect(sniffFileType(ftyp(brand))).toBe(type)
+  })
+
+  it("finds a PDF header after leading junk", () => {
+    expect(sniffFileType(bytes("\r\n\r\n", "%PDF-1.4"))).toBe("application/pdf")
+  })
+
+  it("finds transport streams by their repeating sync byte", () => {
+    const data = new Uint8Array(189)
+    data[0] = 0x47
+    data[188] = 0x47
+    expect(sniffFileType(data)).toBe("video/mp2t")
+  })
+
+  it.each([
+    ["an SVG", bytes('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>')],
+    ["an HTML page", bytes("<!DOCTYPE html><html></html>")],
+    ["plain text", bytes("hello")],
+    ["an unknown RIFF format", bytes("RIFF", [0, 0, 0, 0], "WAVE")],
+    ["an empty file", new Uint8Array()],
+  ])("leaves %s unrecognised", (_, data) => {
+    expect(sniffFileType(data)).toBeUndefined()
+  })
+})
+
+describe("matchesClaimedType", () => {
+  it("accepts a different subtype of the same kind of media", () => {
+    expect(matchesClaimedType("video/quicktime", "video/mp4")).toBe(true)
+  })
+
+  it("rejects contents of another kind", () => {
+    expect(matchesClaimedType("application/pdf", "image/png")).toBe(false)
+  })
+})
@@ -0,0 +1,68 @@
+// Identifies image, video and PDF formats from their leading bytes, so the server never has to trust the
+// MIME type a browser reports. Anything not listed here is treated as unrecognised.
+
+// Leading bytes sniffFileType looks at; passing fewer may miss container details
+export const SNIFF_LENGTH = 4096
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length))
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte)
+
+// ISO base media files (MP4, MOV, HEIC, AVIF, 3GP) are told apart by the ftyp box's major brand
+function sniffIsoBrand(brand: string): string | undefined {
+  if (brand === "avif" || brand === "avis") return "image/avif"
+  if (["heic", "heix", "heim", "heis", "hevc", "hevx"].includes(brand)) return "image/heic"
+  if (brand === "mif1" || brand === "msf1") return "image/heif"
+  if (brand === "qt  ") return "video/quicktime"
+  if (brand.startsWith("3gp") || brand.startsWith("3g2")) return "video/3gpp"
+  if (brand.startsWith("M4V")) return "video/x-m4v"
+  if (brand.startsWith("M4A") || brand.startsWith("M4B")) return "audio/mp4"
+  return "video/mp4"
+}
+
+// Returns the detected MIME type, or undefined if the bytes don't match a known format
+export function sniffFileType(bytes: Uint8Array): string | undefined {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return "image/png"
+  if (ascii(bytes, 0, 6) === "GIF87a" || ascii(bytes, 0, 6) === "GIF89a") return "image/gif"
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return "image/tiff"
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon"
+  if (ascii(bytes, 0, 2) === "BM" && bytes.length >= 14) return "image/bmp"
+
+  if (ascii(bytes, 0, 4) === "RIFF") {
+    const format = ascii(bytes, 8, 4)
+    if (format === "WEBP") return "image/webp"
+    if (format === "AVI ") return "video/x-msvideo"
+    return undefined
+  }
+
+  if (ascii(bytes, 4, 4) === "ftyp") return sniffIsoBrand(ascii(bytes, 8, 4))
+
+  // Matroska and WebM share the EBML header and differ in the DocType element near the start
+  if (startsWith(bytes, [0x1a, 0x45, 0xdf, 0xa3])) {
+    const header = ascii(bytes, 0, Math.min(bytes.length, 64))
+    if (header.includes("webm")) return "video/webm"
+    if (header.includes("matroska")) return "video/x-matroska"
+    return undefined
+  }
+
+  if (ascii(bytes, 0, 4) === "OggS") return "video/ogg"
+  if (ascii(bytes, 0, 3) === "FLV") return "video/x-flv"
+  if (startsWith(bytes, [0x00, 0x00, 0x01, 0xba]) || startsWith(bytes, [0x00, 0x00, 0x01, 0xb3])) return "video/mpeg"
+
+  // MPEG transport streams repeat a sync byte every 188-byte packet
+  if (bytes[0] === 0x47 && bytes[188] === 0x47) return "video/mp2t"
+
+  // Readers accept a PDF header anywhere in the first kilobyte, after junk some generators prepend
+  if (ascii(bytes, 0, Math.min(bytes.length, 1024)).includes("%PDF-")) return "application/pdf"
+
+  return undefined
+}
+
+// A file passes if its contents are the same kind of media as it claims to be. Subtypes may differ,
+// since browsers disagree on names such as video/quicktime vs video/mp4.
+export function matchesClaimedType(sniffedType: string, claimedType: string) {
+  return sniffedType.split("/")[0] === claimedType.split("/")[0]
+}
@@ -0,0 +1,236 @@
+// Browser-side downscaling and re-encoding of photos, so large phone pictures fit the image size
+// limit instead of being rejected. The original's EXIF and XMP are copied into the new file, so the
+// capture details the server reads survive; the scrubbing step that follows removes identifying tags.
+
+import { EXIF_TAGS, findMetadataBlocks, METADATA_SCAN_LENGTH } from "./exif"
+
+export interface ImageCompressionOptions {
+  // Longest side of the output in pixels
+  maxDimension: number
+  // Encoder quality between 0 and 1
+  quality: number
+  mimeType: "image/webp" | "image/jpeg"
+}
+
+export const DEFAULT_IMAGE_COMPRESSION: ImageCompressionOptions = {
+  maxDimension: 2560,
+  quality: 0.85,
+  mimeType: "image/webp",
+}
+
+// Each retry that still misses the target lowers the quality first, then the dimensions
+const MIN_QUALITY = 0.5
+const QUALITY_STEP = 0.1
+const DIMENSION_STEP = 0.75
+const MAX_ATTEMPTS = 8
+
+const EXTENSIONS: Record<ImageCompressionOptions["mimeType"], string> = {
+  "image/webp": "webp",
+  "image/jpeg": "jpg",
+}
+
+// Still images canvas can decode; GIFs would lose their animation and SVGs aren't pixels
+export function canCompressImage(file: File) {
+  return ["image/jpeg", "image/png", "image/webp", "image/bmp"].includes(file.type)
+}
+
+// JPEG segments carry a 16-bit length that includes the length field itself
+const MAX_JPEG_SEGMENT_DATA = 0xffff - 2
+
+const EXIF_HEADER = new TextEncoder().encode("Exif\0\0")
+const XMP_HEADER = new TextEncoder().encode("http://ns.adobe.com/xap/1.0/\0")
+
+interface CopiedMetadata {
+  // TIFF structure, without the "Exif\0\0" prefix
+  exif?: Uint8Array
+  xmp?: Uint8Array
+}
+
+// Sets the orientation tag in IFD0 to upright, since the pixels were already rotated
+function resetExifOrientation(tiff: Uint8Array) {
+  if (tiff.length < 8) return
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const byteOrder = String.fromCharCode(tiff[0], tiff[1])
+  if (byteOrder !== "II" && byteOrder !== "MM") return
+  const littleEndian = byteOrder === "II"
+
+  const ifd = view.getUint32(4, littleEndian)
+  if (ifd < 8 || ifd + 2 > tiff.length) return
+
+  const count = view.getUint16(ifd, littleEndian)
+  for (let entry = ifd + 2; entry + 12 <= tiff.length && entry < ifd + 2 + count * 12; entry += 12) {
+    if (view.getUint16(entry, littleEndian) === EXIF_TAGS.orientation) {
+      view.setUint16(entry + 8, 1, littleEndian)
+    }
+  }
+}
+
+// Copies of the image's EXIF and XMP blocks, with the orientation reset to match the drawn pixels
+async function readCopiedMetadata(file: File): Promise<CopiedMetadata> {
+  try {
+    const bytes = new Uint8Array(await file.slice(0, METADATA_SCAN_LENGTH).arrayBuffer())
+    const { exif, xmp } = findMetadataBlocks(bytes, file.type)
+
+    const copied: CopiedMetadata = {}
+    if (exif) {
+      copied.exif = exif.slice()
+      resetExifOrientation(copied.exif)
+    }
+    if (xmp[0]) {
+      const packet = new TextDecoder().decode(xmp[0])
+      const upright = packet.replace(/(tiff:Orientation(?:\s*=\s*["']|>)\s*)\d/, (_, prefix) => `${prefix}1`)
+      copied.xmp = new TextEncoder().encode(upright)
+    }
+    return copied
+  } catch (error) {
+    // The compressed photo is still worth having without its metadata
+    console.error("Reading image metadata failed:", error)
+    return {}
+  }
+}
+
+const concat = (...parts: Uint8Array[]) => {
+  const bytes = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+function jpegSegment(header: Uint8Array, data: Uint8Array) {
+  const segment = new Uint8Array(4 + header.length + data.length)
+  const length = 2 + header.length + data.length
+  segment.set([0xff, 0xe1, length >> 8, length & 0xff])
+  segment.set(header, 4)
+  segment.set(data, 4 + header.length)
+  return segment
+}
+
+// Inserts APP1 segments after the JFIF header; blocks too big for one segment are left out
+function embedInJpeg(bytes: Uint8Array, metadata: CopiedMetadata) {
+  const segments: Uint8Array[] = []
+  if (metadata.exif && EXIF_HEADER.length + metadata.exif.length <= MAX_JPEG_SEGMENT_DATA) {
+    segments.push(jpegSegment(EXIF_HEADER, metadata.exif))
+  }
+  if (metadata.xmp && XMP_HEADER.length + metadata.xmp.length <= MAX_JPEG_SEGMENT_DATA) {
+    segments.push(jpegSegment(XMP_HEADER, metadata.xmp))
+  }
+
+  const hasJfif = bytes[2] === 0xff && bytes[3] === 0xe0
+  const insertAt = hasJfif ? 4 + ((bytes[4] << 8) | bytes[5]) : 2
+  return concat(bytes.subarray(0, insertAt), ...segments, bytes.subarray(insertAt))
+}
+
+function webpChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(8 + data.length + (data.length % 2))
+  chunk.set(new TextEncoder().encode(type))
+  new DataView(chunk.buffer).setUint32(4, data.length, true)
+  chunk.set(data, 8)
+  return chunk
+}
+
+// Simple WebP files have no room for metadata, so they get the extended VP8X header first; the
+// metadata chunks go after the image data
+function embedInWebp(bytes: Uint8Array, metadata: CopiedMetadata, width: number, height: number) {
+  const flags = (metadata.exif ? 0x08 : 0) | (metadata.xmp ? 0x04 : 0)
+  let body = bytes.subarray(12)
+
+  if (String.fromCharCode(...body.subarray(0, 4)) === "VP8X") {
+    body = body.slice()
+    body[8] |= flags
+  } else {
+    const header = new Uint8Array(10)
+    header[0] = flags
+    header.set([(width - 1) & 0xff, ((width - 1) >> 8) & 0xff, (width - 1) >> 16], 4)
+    header.set([(height - 1) & 0xff, ((height - 1) >> 8) & 0xff, (height - 1) >> 16], 7)
+    body = concat(webpChunk("VP8X", header), body)
+  }
+
+  const chunks: Uint8Array[] = []
+  if (metadata.exif) chunks.push(webpChunk("EXIF", metadata.exif))
+  if (metadata.xmp) chunks.push(webpChunk("XMP ", metadata.xmp))
+
+  const result = concat(bytes.subarray(0, 12), body, ...chunks)
+  new DataView(result.buffer).setUint32(4, result.length - 8, true)
+  return result
+}
+
+async function embedMetadata(blob: Blob, metadata: CopiedMetadata, width: number, height: number) {
+  if (!metadata.exif && !metadata.xmp) return blob
+
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const embedded =
+    blob.type === "image/jpeg" ? embedInJpeg(bytes, metadata) : embedInWebp(bytes, metadata, width, height)
+  return new Blob([embedded], { type: blob.type })
+}
+
+function encodeCanvas(canvas: HTMLCanvasElement, mimeType: string, quality: number) {
+  return new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, quality))
+}
+
+// Resolves to a smaller re-encoded copy of the image, or null if it can't get under maxBytes
+export async function compressImage(
+  file: File,
+  maxBytes: number,
+  options: ImageCompressionOptions = DEFAULT_IMAGE_COMPRESSION,
+): Promise<File | null> {
+  let bitmap: ImageBitmap
+  try {
+    // Applies EXIF rotation, which would otherwise be lost along with the rest of the metadata
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  } catch {
+    return null
+  }
+
+  try {
+    const canvas = document.createElement("canvas")
+    const context = canvas.getContext("2d")
+    if (!context) return null
+
+    let scale = Math.min(1, options.maxDimension / Math.max(bitmap.width, bitmap.height))
+    let quality = options.quality
+    let mimeType: string = options.mimeType
+    const metadata = await readCopiedMetadata(file)
+
+    for (let attempt = 0; attempt < MAX_ATTEMPTS; attempt++) {
+      canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+      canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+
+      // JPEG has no alpha channel, so transparent areas would otherwise turn black
+      if (mimeType === "image/jpeg") {
+        context.fillStyle = "#fff"
+        context.fillRect(0, 0, canvas.width, canvas.height)
+      }
+      context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+      const encoded = await encodeCanvas(canvas, mimeType, quality)
+
+      // Browsers without a WebP encoder silently hand back a PNG
+      if (encoded && encoded.type !== mimeType) {
+        mimeType = "image/jpeg"
+        continue
+      }
+
+      const blob = encoded && (await embedMetadata(encoded, metadata, canvas.width, canvas.height))
+
+      if (blob && blob.size <= maxBytes && blob.size < file.size) {
+        const extension = EXTENSIONS[mimeType as ImageCompressionOptions["mimeType"]]
+        const baseName = file.name.includes(".") ? file.name.slice(0, file.name.lastIndexOf(".")) : file.name
+        return new File([blob], `${baseName}.${extension}`, { type: mimeType, lastModified: file.lastModified })
+      }
+
+      if (quality - QUALITY_STEP >= MIN_QUALITY) {
+        quality -= QUALITY_STEP
+      } else {
+        scale *= DIMENSION_STEP
+      }
+    }
+
+    return null
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,257 @@
+// Reachability checks and archived snapshots of proof links. A snapshot is the page's HTML with
+// its stylesheets and images inlined and everything active stripped, so it shows what the link
+// showed at submission time without loading anything from the live site.
+
+import { readResponseBytes, readResponseText, type FetchLike } from "./link-preview"
+
+export interface LinkCheck {
+  // HTTP status of the final response; undefined when the link couldn't be fetched at all
+  status?: number
+  // Where redirects ended up, if somewhere else
+  finalUrl?: string
+  error?: string
+  checkedAt: string
+}
+
+export interface LinkArchiveResult {
+  check: LinkCheck
+  // Self-contained HTML, only for pages that loaded successfully
+  snapshot?: string
+}
+
+export interface LinkArchiveOptions {
+  fetch: FetchLike
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+const MAX_HTML_BYTES = 2 * 1024 * 1024
+// Assets past these limits are left out of the snapshot rather than failing it
+const MAX_ASSETS = 40
+const MAX_ASSET_BYTES = 1024 * 1024
+const MAX_TOTAL_ASSET_BYTES = 8 * 1024 * 1024
+const ASSET_CONCURRENCY = 6
+
+const USER_AGENT = "ProofViewer-LinkArchiver/1.0"
+
+// Nothing in a snapshot may load from the network; inlined assets are all data: URLs
+const SNAPSHOT_CSP =
+  "default-src 'none'; img-src data:; style-src 'unsafe-inline'; font-src data:; media-src data:; form-action 'none'"
+
+export const isReachable = (check: LinkCheck) => check.status !== undefined && check.status >= 200 && check.status < 300
+
+const escapeAttribute = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")
+
+const decodeAttribute = (value: string) =>
+  value
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+
+function resolveAssetUrl(value: string | undefined, base: string) {
+  if (!value || value.startsWith("data:")) return undefined
+  try {
+    const url = new URL(decodeAttribute(value.trim()), base)
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function getAttribute(tag: string, name: string) {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s"'>]+))`, "i"))
+  return match ? (match[1] ?? match[2] ?? match[3]) : undefined
+}
+
+function removeAttribute(tag: string, name: string) {
+  return tag.replace(new RegExp(`\\s${name}\\s*=\\s*(?:"[^"]*"|'[^']*'|[^\\s"'>]+)`, "gi"), "")
+}
+
+function setAttribute(tag: string, name: string, value: string) {
+  const without = removeAttribute(tag, name)
+  return without.replace(/\s*\/?>$/, (end) => ` ${name}="${escapeAttribute(value)}"${end}`)
+}
+
+const EVENT_HANDLER = /(<[a-z][^>]*?)\s+on[a-z]+\s*=\s*(?:"[^"]*"|'[^']*'|[^\s>]+)/gi
+
+// Removes scripts, frames, event handlers and anything that would navigate or reload the page. The
+// snapshot is also shown in a sandbox under a CSP that blocks scripts; this keeps the stored HTML inert.
+function stripActiveContent(html: string) {
+  let result = html
+    .replace(/<script\b[\s\S]*?<\/script\s*>/gi, "")
+    .replace(/<(iframe|frame|object|applet|template)\b[\s\S]*?<\/\1\s*>/gi, "")
+    .replace(/<(script|iframe|frame|frameset|object|embed|applet|base)\b[^>]*>/gi, "")
+    .replace(/<meta\b[^>]*http-equiv\s*=\s*["']?(refresh|content-security-policy)[^>]*>/gi, "")
+    // With scripts gone, the no-script fallbacks are what should show
+    .replace(/<\/?noscript\b[^>]*>/gi, "")
+    .replace(/(href|src|action|formaction)\s*=\s*(["']?)\s*javascript:[^"'>\s]*\2/gi, '$1="#"')
+
+  // Each pass removes one handler per tag
+  for (let previous = ""; previous !== result;) {
+    previous = result
+    result = result.replace(EVENT_HANDLER, "$1")
+  }
+  return result
+}
+
+// Fetches assets for the snapshot within the size budget, returning data: URLs keyed by asset URL
+function createAssetLoader(options: LinkArchiveOptions, signal: AbortSignal) {
+  const loaded = new Map<string, Promise<string | undefined>>()
+  let totalBytes = 0
+
+  const load = async (url: string, accept: RegExp) => {
+    try {
+      const response = await options.fetch(url, { headers: { "User-Agent": USER_AGENT }, signal })
+      const contentType = (response.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase()
+      if (!response.ok || !accept.test(contentType)) {
+        await response.body?.cancel().catch(() => {})
+        return undefined
+      }
+
+      const bytes = await readResponseBytes(response, MAX_ASSET_BYTES + 1)
+      if (bytes.length > MAX_ASSET_BYTES || totalBytes + bytes.length > MAX_TOTAL_ASSET_BYTES) return undefined
+
+      totalBytes += bytes.length
+      return { contentType, bytes }
+    } catch {
+      return undefined
+    }
+  }
+
+  return {
+    async dataUrl(url: string, accept: RegExp) {
+      if (!loaded.has(url)) {
+        if (loaded.size >= MAX_ASSETS) return undefined
+        loaded.set(
+          url,
+          load(url, accept).then((asset) =>
+            asset ? `data:${asset.contentType};base64,${Buffer.from(asset.bytes).toString("base64")}` : undefined,
+          ),
+        )
+      }
+      return loaded.get(url)
+    },
+    async text(url: string, accept: RegExp) {
+      const asset = await load(url, accept)
+      return asset ? new TextDecoder().decode(asset.bytes) : undefined
+    },
+  }
+}
+
+type AssetLoader = ReturnType<typeof createAssetLoader>
+
+// Runs the replacer on every match with limited concurrency, then splices the results in
+async function replaceAsync(text: string, pattern: RegExp, replacer: (match: RegExpExecArray) => Promise<string>) {
+  const matches = [...text.matchAll(pattern)] as RegExpExecArray[]
+  const replacements: string[] = []
+
+  for (let start = 0; start < matches.length; start += ASSET_CONCURRENCY) {
+    replacements.push(...(await Promise.all(matches.slice(start, start + ASSET_CONCURRENCY).map(replacer))))
+  }
+
+  let result = ""
+  let lastIndex = 0
+  matches.forEach((match, index) => {
+    result += text.slice(lastIndex, match.index) + replacements[index]
+    lastIndex = match.index + match[0].length
+  })
+  return result + text.slice(lastIndex)
+}
+
+// Inlines the images and fonts a stylesheet refers to; anything else is blocked by the CSP anyway
+async function inlineCss(css: string, base: string, assets: AssetLoader) {
+  const withoutImports = css.replace(/@import\s+[^;]+;/gi, "")
+  return replaceAsync(withoutImports, /url\(\s*(["']?)([^"')]+)\1\s*\)/gi, async (match) => {
+    if (match[2].trim().startsWith("data:")) return match[0]
+
+    const url = resolveAssetUrl(match[2], base)
+    const dataUrl = url ? await assets.dataUrl(url, /^(image|font)\/|^application\/(font|x-font)/) : undefined
+    return dataUrl ? `url("${dataUrl}")` : "none"
+  })
+}
+
+async function inlineAssets(html: string, pageUrl: string, assets: AssetLoader) {
+  let result = await replaceAsync(html, /<style\b[^>]*>([\s\S]*?)<\/style\s*>/gi, async ([, css]) => {
+    return `<style>${await inlineCss(css, pageUrl, assets)}</style>`
+  })
+
+  // External stylesheets become <style> blocks
+  result = await replaceAsync(result, /<link\b[^>]*>/gi, async ([tag]) => {
+    const rel = getAttribute(tag, "rel")?.toLowerCase().split(/\s+/) ?? []
+    // Icons, preloads and the like could only ever load from the live site
+    if (!rel.includes("stylesheet")) return ""
+
+    const url = resolveAssetUrl(getAttribute(tag, "href"), pageUrl)
+    const css = url ? await assets.text(url, /^text\/css$/) : undefined
+    return css && url ? `<style>${(await inlineCss(css, url, assets)).replace(/<\/style/gi, "<\\/style")}</style>` : ""
+  })
+
+  // Lazy-loading pages often keep the real image in data-src
+  result = await replaceAsync(result, /<img\b[^>]*>/gi, async ([tag]) => {
+    const source = getAttribute(tag, "src")
+    const url = resolveAssetUrl(
+      source && !source.startsWith("data:") ? source : (getAttribute(tag, "data-src") ?? source),
+      pageUrl,
+    )
+    const dataUrl = url ? await assets.dataUrl(url, /^image\//) : undefined
+
+    const cleaned = removeAttribute(removeAttribute(tag, "srcset"), "loading")
+    return dataUrl ? setAttribute(cleaned, "src", dataUrl) : source?.startsWith("data:") ? cleaned : ""
+  })
+
+  return result
+}
+
+function addSnapshotHead(html: string, pageUrl: string, checkedAt: string) {
+  const head = [
+    `<!-- Archived from ${pageUrl.replace(/--/g, "%2D%2D")} at ${checkedAt} -->`,
+    `<meta charset="utf-8">`,
+    `<meta http-equiv="Content-Security-Policy" content="${SNAPSHOT_CSP}">`,
+    // Links still work, opening the live page in a new tab
+    `<base href="${escapeAttribute(pageUrl)}" target="_blank">`,
+  ].join("")
+
+  if (/<head\b[^>]*>/i.test(html)) return html.replace(/<head\b[^>]*>/i, (tag) => `${tag}${head}`)
+  return `<!DOCTYPE html><html><head>${head}</head><body>${html}</body></html>`
+}
+
+// Checks that a link still resolves and, for HTML pages, builds a snapshot of it. Never throws:
+// a link that can't be fetched is reported through the check's error.
+export async function archiveLink(link: string, options: LinkArchiveOptions): Promise<LinkArchiveResult> {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const checkedAt = new Date().toISOString()
+
+  let response: Response
+  try {
+    response = await options.fetch(link, {
+      headers: { Accept: "text/html,application/xhtml+xml,*/*;q=0.8", "User-Agent": USER_AGENT },
+      redirect: "follow",
+      signal,
+    })
+  } catch (error) {
+    return { check: { error: error instanceof Error ? error.message : "Link could not be fetched", checkedAt } }
+  }
+
+  const finalUrl = response.url && response.url !== link ? response.url : undefined
+  const check: LinkCheck = { status: response.status, finalUrl, checkedAt }
+  const contentType = response.headers.get("content-type") ?? ""
+
+  if (!isReachable(check) || !/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+    await response.body?.cancel().catch(() => {})
+    return { check }
+  }
+
+  try {
+    const pageUrl = response.url || link
+    const html = stripActiveContent(await readResponseText(response, MAX_HTML_BYTES))
+    // Assets get their own time budget, so a slow page still leaves time to fetch them
+    const assets = createAssetLoader(options, AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS))
+    const inlined = await inlineAssets(html, pageUrl, assets)
+
+    return { check, snapshot: addSnapshotHead(inlined, pageUrl, checkedAt) }
+  } catch (error) {
+    return { check: { ...check, error: error instanceof Error ? error.message : "Snapshot failed" } }
+  }
+}
@@ -0,0 +1,131 @@
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { readResponseBytes, unfurlLink } from "./link-preview"
+
+const PAGES: Record<string, { type?: string; status?: number; location?: string; body?: string }> = {
+  "/article": {
+    body: `<!doctype html><html><head>
+      <title>Fallback title</title>
+      <meta property="og:title" content="Tom &amp; Jerry&#39;s   big day">
+      <meta property="og:title" content="Second title">
+      <meta name="description" content="Plain description">
+      <meta property="og:description" content="Open Graph description">
+      <meta property="og:site_name" content="Example News">
+      <meta property="og:image" content="/images/cover.jpg">
+      <link rel="canonical" href="/articles/1">
+    </head><body><meta property="og:title" content="Body title"></body></html>`,
+  },
+  "/plain": { body: "<html><head><title>\n  Just a title\n</title></head></html>" },
+  "/video": {
+    body: `<html><head><link rel="alternate" type="application/json+oembed" href="/oembed.json"></head></html>`,
+  },
+  "/scripted": { body: `<html><head><meta name="twitter:image" content="javascript:alert(1)"></head></html>` },
+  "/oembed.json": {
+    type: "application/json",
+    body: JSON.stringify({
+      title: "Video from oEmbed",
+      provider_name: "Tube",
+      thumbnail_url: "https://cdn.test/v.jpg",
+    }),
+  },
+  "/long": { body: `<html><head><meta name="description" content="${"word ".repeat(100)}"></head></html>` },
+  "/moved": { status: 301, location: "/plain" },
+  "/image": { type: "image/png", body: "\x89PNG" },
+}
+
+describe("unfurlLink", () => {
+  let server: http.Server
+  let origin: string
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const page = PAGES[request.url ?? ""]
+      if (!page) {
+        response.writeHead(404).end()
+        return
+      }
+
+      response
+        .writeHead(page.status ?? 200, {
+          "Content-Type": page.type ?? "text/html; charset=utf-8",
+          ...(page.location && { Location: page.location }),
+        })
+        .end(page.body)
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it("reads the Open Graph tags from the head, resolving relative URLs", async () => {
+    const preview = await unfurlLink(`${origin}/article`)
+
+    expect(preview).toMatchObject({
+      url: `${origin}/articles/1`,
+      title: "Tom & Jerry's big day",
+      description: "Open Graph description",
+      siteName: "Example News",
+      imageUrl: `${origin}/images/cover.jpg`,
+    })
+    expect(Date.parse(preview.fetchedAt)).not.toBeNaN()
+  })
+
+  it("falls back to the page title and the URL the redirects ended at", async () => {
+    const preview = await unfurlLink(`${origin}/moved`)
+
+    expect(preview.url).toBe(`${origin}/plain`)
+    expect(preview.title).toBe("Just a title")
+    expect(preview.description).toBeUndefined()
+    expect(preview.imageUrl).toBeUndefined()
+  })
+
+  it("fills gaps from the page's oEmbed endpoint", async () => {
+    const preview = await unfurlLink(`${origin}/video`)
+
+    expect(preview).toMatchObject({ title: "Video from oEmbed", siteName: "Tube", imageUrl: "https://cdn.test/v.jpg" })
+  })
+
+  it("drops image URLs that aren't http or https", async () => {
+    expect((await unfurlLink(`${origin}/scripted`)).imageUrl).toBeUndefined()
+  })
+
+  it("shortens long text", async () => {
+    const { description } = await unfurlLink(`${origin}/long`)
+
+    expect(description).toHaveLength(300)
+    expect(description?.endsWith("…")).toBe(true)
+  })
+
+  it("fetches through the injected fetch", async () => {
+    const requested: string[] = []
+    await unfurlLink(`${origin}/plain`, {
+      fetch: (url, init) => {
+        requested.push(url)
+        return fetch(url, init)
+      },
+    })
+
+    expect(requested).toEqual([`${origin}/plain`])
+  })
+
+  it("throws for error responses and for anything that isn't a web page", async () => {
+    await expect(unfurlLink(`${origin}/missing`)).rejects.toThrow("Link responded with 404")
+    await expect(unfurlLink(`${origin}/image`)).rejects.toThrow("Link is not a web page (image/png)")
+  })
+})
+
+describe("readResponseBytes", () => {
+  it("stops reading at the limit", async () => {
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.enqueue(new Uint8Array(1000).fill(1))
+      },
+    })
+
+    expect(await readResponseBytes(new Response(body), 2500)).toHaveLength(2500)
+  })
+})
@@ -0,0 +1,189 @@
+// Server-side unfurling of proof links into a title, description and image, read from the page's
+// OpenGraph and Twitter card tags and, where the page advertises one, its oEmbed endpoint.
+
+export interface LinkPreview {
+  // The page the preview describes, after redirects and any canonical URL
+  url: string
+  title?: string
+  description?: string
+  siteName?: string
+  imageUrl?: string
+  fetchedAt: string
+}
+
+// The part of fetch the unfurler uses
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>
+
+export interface UnfurlOptions {
+  // Injectable so the unfurler can be pointed at a stub server, or kept off private networks
+  fetch?: FetchLike
+  timeoutMs?: number
+}
+
+const DEFAULT_TIMEOUT_MS = 5000
+// Metadata lives in <head>, so there's no need to read whole pages
+const MAX_HTML_BYTES = 512 * 1024
+const MAX_OEMBED_BYTES = 64 * 1024
+const MAX_TEXT_LENGTH = 300
+
+const USER_AGENT = "ProofViewer-LinkPreview/1.0"
+
+const NAMED_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] !== "#") return NAMED_ENTITIES[code.toLowerCase()] ?? entity
+    const point = code[1].toLowerCase() === "x" ? Number.parseInt(code.slice(2), 16) : Number(code.slice(1))
+    return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity
+  })
+}
+
+function cleanText(value: string | undefined) {
+  const text = value ? decodeEntities(value).replace(/\s+/g, " ").trim() : ""
+  if (!text) return undefined
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text
+}
+
+// Only http(s) URLs are kept, so a page can't point the card at javascript: or data: URLs
+function resolveUrl(value: string | undefined, base: string) {
+  if (!value) return undefined
+  try {
+    const url = new URL(decodeEntities(value.trim()), base)
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function parseAttributes(tag: string) {
+  const attributes: Record<string, string> = {}
+  for (const match of tag.matchAll(/([a-z][a-z0-9:_-]*)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi)) {
+    attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? ""
+  }
+  return attributes
+}
+
+interface PageTags {
+  meta: Map<string, string>
+  title?: string
+  canonical?: string
+  oembed?: string
+}
+
+// Pulls the tags the preview is built from out of the page's markup
+function readPageTags(html: string): PageTags {
+  const head = html.split(/<\/head>/i)[0]
+  const tags: PageTags = { meta: new Map() }
+
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag)
+    const key = (attributes.property ?? attributes.name)?.toLowerCase()
+    // The first occurrence wins, as it does for the sites that render these cards
+    if (key && attributes.content !== undefined && !tags.meta.has(key)) {
+      tags.meta.set(key, attributes.content)
+    }
+  }
+
+  for (const [tag] of head.matchAll(/<link\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag)
+    const rel = attributes.rel?.toLowerCase().split(/\s+/) ?? []
+    if (rel.includes("canonical")) tags.canonical ??= attributes.href
+    if (rel.includes("alternate") && attributes.type?.toLowerCase() === "application/json+oembed") {
+      tags.oembed ??= attributes.href
+    }
+  }
+
+  tags.title = head.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+  return tags
+}
+
+// Reads at most maxBytes of the body, so a huge or endless response can't exhaust memory
+export async function readResponseBytes(response: Response, maxBytes: number) {
+  if (!response.body) return new Uint8Array(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (total < maxBytes) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    total += value.length
+  }
+  await reader.cancel().catch(() => {})
+
+  const bytes = new Uint8Array(Math.min(total, maxBytes))
+  let offset = 0
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset)
+    bytes.set(part, offset)
+    offset += part.length
+  }
+  return bytes
+}
+
+export async function readResponseText(response: Response, maxBytes: number) {
+  return new TextDecoder().decode(await readResponseBytes(response, maxBytes))
+}
+
+async function fetchOEmbed(endpoint: string, fetchImpl: FetchLike, signal: AbortSignal) {
+  try {
+    const response = await fetchImpl(endpoint, {
+      headers: { Accept: "application/json", "User-Agent": USER_AGENT },
+      signal,
+    })
+    if (!response.ok) return undefined
+
+    const data = JSON.parse(await readResponseText(response, MAX_OEMBED_BYTES))
+    return data && typeof data === "object" ? (data as Record<string, unknown>) : undefined
+  } catch {
+    // oEmbed only fills gaps left by the page's own tags
+    return undefined
+  }
+}
+
+const asString = (value: unknown) => (typeof value === "string" ? value : undefined)
+
+// Fetches the page behind a proof link and describes it. Throws if the page can't be fetched or
+// isn't HTML; a page without any preview tags still yields its URL and <title>.
+export async function unfurlLink(link: string, options: UnfurlOptions = {}): Promise<LinkPreview> {
+  const fetchImpl: FetchLike = options.fetch ?? fetch
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+
+  const response = await fetchImpl(link, {
+    headers: { Accept: "text/html,application/xhtml+xml", "User-Agent": USER_AGENT },
+    redirect: "follow",
+    signal,
+  })
+
+  if (!response.ok) {
+    throw new Error(`Link responded with ${response.status}`)
+  }
+
+  const contentType = response.headers.get("content-type") ?? ""
+  if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+    await response.body?.cancel().catch(() => {})
+    throw new Error(`Link is not a web page (${contentType || "unknown type"})`)
+  }
+
+  const pageUrl = response.url || link
+  const tags = readPageTags(await readResponseText(response, MAX_HTML_BYTES))
+  const meta = (...keys: string[]) => keys.map((key) => tags.meta.get(key)).find((value) => value?.trim())
+
+  const oembedUrl = resolveUrl(tags.oembed, pageUrl)
+  const oembed = oembedUrl ? await fetchOEmbed(oembedUrl, fetchImpl, signal) : undefined
+
+  return {
+    url: resolveUrl(meta("og:url") ?? tags.canonical, pageUrl) ?? pageUrl,
+    title: cleanText(meta("og:title", "twitter:title") ?? asString(oembed?.title) ?? tags.title),
+    description: cleanText(meta("og:description", "twitter:description", "description")),
+    siteName: cleanText(meta("og:site_name", "application-name") ?? asString(oembed?.provider_name)),
+    imageUrl: resolveUrl(
+      meta("og:image:secure_url", "og:image", "og:image:url", "twitter:image", "twitter:image:src") ??
+        asString(oembed?.thumbnail_url),
+      pageUrl,
+    ),
+    fetchedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,175 @@
+// Browser-side removal of location and identifying metadata from photos before they are uploaded.
+// Tags are blanked in place rather than re-encoding the image, so pixels, capture time and camera
+// model survive untouched.
+
+import { EXIF_TAGS, findMetadataBlocks } from "./exif"
+
+// "always" scrubs without asking, "opt-out" scrubs unless the user turns it off, "opt-in" only
+// when they turn it on, and "never" leaves files as they are
+export type MetadataScrubbingPolicy = "always" | "opt-out" | "opt-in" | "never"
+
+const POLICIES: MetadataScrubbingPolicy[] = ["always", "opt-out", "opt-in", "never"]
+
+export function getMetadataScrubbingPolicy(): MetadataScrubbingPolicy {
+  const policy = process.env.NEXT_PUBLIC_METADATA_SCRUBBING
+  return POLICIES.find((candidate) => candidate === policy) ?? "opt-out"
+}
+
+export interface ScrubResult {
+  file: File
+  // Human-readable names of what was removed, e.g. "GPS location"
+  removed: string[]
+}
+
+// EXIF tags that identify the device or its owner, found in IFD0 or the Exif IFD
+const IDENTIFYING_TAGS: Record<number, string> = {
+  0x013b: "Artist name",
+  0x927c: "Maker notes",
+  0xa420: "Unique image ID",
+  0xa430: "Owner name",
+  0xa431: "Camera serial number",
+  0xa435: "Lens serial number",
+}
+
+// XMP properties carrying the same details; a packet containing any of them is blanked entirely
+const IDENTIFYING_XMP: [RegExp, string][] = [
+  [/exif:GPS/, "GPS location"],
+  [/(aux:SerialNumber|exifEX:BodySerialNumber)/, "Camera serial number"],
+  [/(aux:LensSerialNumber|exifEX:LensSerialNumber)/, "Lens serial number"],
+  [/(aux:OwnerName|exifEX:CameraOwnerName)/, "Owner name"],
+  [/exif:ImageUniqueID/, "Unique image ID"],
+]
+
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+export function canScrubMetadata(file: File) {
+  return ["image/jpeg", "image/png", "image/webp", "image/tiff", "image/heic", "image/heif", "image/avif"].includes(
+    file.type,
+  )
+}
+
+// Blanks the value an IFD entry points at, keeping the entry so offsets elsewhere stay valid.
+// Returns false if the value was already blank.
+function zeroEntryValue(tiff: Uint8Array, view: DataView, entry: number, littleEndian: boolean) {
+  const size = (TYPE_SIZES[view.getUint16(entry + 2, littleEndian)] ?? 1) * view.getUint32(entry + 4, littleEndian)
+  const offset = size <= 4 ? entry + 8 : view.getUint32(entry + 8, littleEndian)
+  const value = tiff.subarray(offset, offset + size)
+  const hadValue = value.some((byte) => byte !== 0)
+  value.fill(0)
+  return hadValue
+}
+
+function scrubTiff(tiff: Uint8Array, removed: Set<string>) {
+  if (tiff.length < 8) return
+
+  const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+  const byteOrder = String.fromCharCode(tiff[0], tiff[1])
+  if (byteOrder !== "II" && byteOrder !== "MM") return
+  const littleEndian = byteOrder === "II"
+
+  const entriesOf = (ifd: number) => {
+    if (ifd < 8 || ifd + 2 > tiff.length) return []
+    const count = view.getUint16(ifd, littleEndian)
+    return Array.from({ length: count }, (_, index) => ifd + 2 + index * 12).filter(
+      (entry) => entry + 12 <= tiff.length,
+    )
+  }
+
+  const scrubIfd = (ifd: number, followPointers: boolean) => {
+    for (const entry of entriesOf(ifd)) {
+      const tag = view.getUint16(entry, littleEndian)
+
+      if (tag in IDENTIFYING_TAGS) {
+        if (zeroEntryValue(tiff, view, entry, littleEndian)) removed.add(IDENTIFYING_TAGS[tag])
+      } else if (followPointers && tag === EXIF_TAGS.exifIfd) {
+        scrubIfd(view.getUint32(entry + 8, littleEndian), false)
+      } else if (followPointers && tag === EXIF_TAGS.gpsIfd) {
+        clearGps(view.getUint32(entry + 8, littleEndian))
+      }
+    }
+  }
+
+  // Every GPS tag is location data, so the whole IFD is emptied
+  const clearGps = (ifd: number) => {
+    const entries = entriesOf(ifd)
+    if (entries.length === 0) return
+
+    for (const entry of entries) {
+      zeroEntryValue(tiff, view, entry, littleEndian)
+    }
+    // Zero entries, and the zeroed bytes that follow read as "no next IFD"
+    tiff.fill(0, ifd, Math.min(ifd + 2 + entries.length * 12 + 4, tiff.length))
+    removed.add("GPS location")
+  }
+
+  scrubIfd(view.getUint32(4, littleEndian), true)
+}
+
+function scrubXmp(packet: Uint8Array, removed: Set<string>) {
+  const text = new TextDecoder().decode(packet)
+  const matches = IDENTIFYING_XMP.filter(([pattern]) => pattern.test(text))
+  if (matches.length === 0) return
+
+  // Spaces are valid XMP padding, so the surrounding packet stays well formed
+  packet.fill(0x20)
+  for (const [, label] of matches) {
+    removed.add(label)
+  }
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// PNG chunks are checksummed, so the metadata chunks need new CRCs after being edited
+function updatePngChecksums(bytes: Uint8Array) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  let offset = 8
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    if (offset + 12 + length > bytes.length) break
+
+    if (type === "eXIf" || type === "iTXt") {
+      view.setUint32(offset + 8 + length, crc32(bytes.subarray(offset + 4, offset + 8 + length)))
+    }
+    offset += 12 + length
+  }
+}
+
+// Resolves to a copy of the photo without location and identifying tags, or null if it had none
+export async function scrubImageMetadata(file: File): Promise<ScrubResult | null> {
+  if (!canScrubMetadata(file)) return null
+
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  const removed = new Set<string>()
+
+  try {
+    const { exif, xmp } = findMetadataBlocks(bytes, file.type)
+    if (exif) scrubTiff(exif, removed)
+    for (const packet of xmp) {
+      scrubXmp(packet, removed)
+    }
+  } catch (error) {
+    // A file whose metadata can't be read is uploaded as is rather than blocked
+    console.error("Metadata scrubbing failed:", error)
+    return null
+  }
+
+  if (removed.size === 0) return null
+  if (file.type === "image/png") updatePngChecksums(bytes)
+
+  return {
+    file: new File([bytes], file.name, { type: file.type, lastModified: file.lastModified }),
+    removed: [...removed],
+  }
+}
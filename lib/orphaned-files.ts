@@ -0,0 +1,45 @@
+import { getProofRepository } from "./repositories"
+import { getStorageProvider, isProofFilePath } from "./storage"
+
+// Files younger than this are left alone, since they may belong to a submission still in progress
+export const ORPHAN_GRACE_PERIOD_MS = 24 * 60 * 60 * 1000
+
+const PROOF_FILES_PREFIX = "proofs/"
+
+// Deletes whichever of the given files no proof refers to. Paths outside the proof files area and
+// files that are in use are skipped, so callers can pass paths straight from a client.
+export async function deleteUnreferencedFiles(filePaths: string[]) {
+  const candidates = [...new Set(filePaths.filter(isProofFilePath))]
+  if (candidates.length === 0) return []
+
+  const referenced = new Set(await getProofRepository().findReferencedFilePaths(candidates))
+  const orphaned = candidates.filter((filePath) => !referenced.has(filePath))
+
+  const storage = getStorageProvider()
+  const deleted: string[] = []
+
+  for (const filePath of orphaned) {
+    try {
+      await storage.delete(filePath)
+      deleted.push(filePath)
+    } catch (error) {
+      // The sweeper will find it again on its next run
+      console.error("Failed to delete orphaned file:", filePath, error)
+    }
+  }
+
+  return deleted
+}
+
+// Finds stored proof files that no proof refers to and deletes the ones past the grace period
+export async function sweepOrphanedFiles(now = Date.now()) {
+  const objects = await getStorageProvider().list(PROOF_FILES_PREFIX)
+
+  // Objects without a timestamp are treated as new, erring on the side of keeping them
+  const expired = objects.filter(
+    (object) => object.lastModified && now - new Date(object.lastModified).getTime() > ORPHAN_GRACE_PERIOD_MS,
+  )
+
+  const deleted = await deleteUnreferencedFiles(expired.map((object) => object.path))
+  return { scanned: objects.length, deleted }
+}
@@ -0,0 +1,36 @@
+// Browser-side access to pdf.js for PDF proofs. The library is large and only works in the browser,
+// so it's loaded on first use; parsing runs in its worker, off the main thread.
+
+import type * as PdfJs from "pdfjs-dist"
+
+export type { PDFDocumentProxy, PDFPageProxy } from "pdfjs-dist"
+export type PdfTextItem = Extract<
+  Awaited<ReturnType<PdfJs.PDFPageProxy["getTextContent"]>>["items"][number],
+  { str: string }
+>
+
+let pdfjs: Promise<typeof PdfJs> | undefined
+
+export function loadPdfJs() {
+  pdfjs ??= import("pdfjs-dist").then(
+    (module) => {
+      module.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString()
+      return module
+    },
+    (error) => {
+      // Let the next caller try again, e.g. after a failed chunk download
+      pdfjs = undefined
+      throw error
+    },
+  )
+  return pdfjs
+}
+
+// Opens a PDF from a URL or from its bytes. Callers own the document and must destroy() it.
+export async function openPdf(source: string | ArrayBuffer) {
+  const { getDocument } = await loadPdfJs()
+  return getDocument(typeof source === "string" ? { url: source } : { data: source }).promise
+}
+
+export const isRenderingCancelled = (error: unknown) =>
+  error instanceof Error && error.name === "RenderingCancelledException"
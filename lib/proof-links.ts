@@ -0,0 +1,33 @@
+// Proof links are compared in a normalized form, so trivial variations of the same URL (case,
+// "www.", tracking parameters, trailing slashes) count as the same link.
+
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = new Set(["fbclid", "gclid", "dclid", "msclkid", "mc_cid", "mc_eid", "igshid", "si"])
+
+const isTrackingParam = (name: string) =>
+  name.toLowerCase().startsWith("utm_") || TRACKING_PARAMS.has(name.toLowerCase())
+
+export function normalizeProofLink(link: string): string {
+  const trimmed = link.trim()
+
+  let url: URL
+  try {
+    url = new URL(trimmed)
+  } catch {
+    return trimmed.toLowerCase()
+  }
+
+  // URL already lowercases the scheme and host and drops default ports
+  const host = url.hostname.replace(/^www\./, "")
+  const port = url.port ? `:${url.port}` : ""
+  const path = url.pathname.replace(/\/+$/, "")
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+  const query = params.length > 0 ? `?${new URLSearchParams(params)}` : ""
+
+  // http and https versions of a page are the same proof; the fragment never reaches the server
+  const scheme = url.protocol === "http:" ? "https:" : url.protocol
+  return `${scheme}//${host}${port}${path}${query}`
+}
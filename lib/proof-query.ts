@@ -0,0 +1,86 @@
+import { isProofStatus, type ProofStatus } from "./proof-status"
+
+// Query options for the proofs index, shared by the page, the filters and the server action
+export const PROOF_SORT_FIELDS = ["created_at", "file_size"] as const
+// Top-level MIME types; PDF is the only "application" type uploads accept
+export const PROOF_FILE_TYPES = ["image", "video", "application"] as const
+export const PROOF_KINDS = ["link", "file"] as const
+
+export type ProofSortField = (typeof PROOF_SORT_FIELDS)[number]
+export type ProofFileTypeFilter = (typeof PROOF_FILE_TYPES)[number]
+export type ProofKindFilter = (typeof PROOF_KINDS)[number]
+
+export const DEFAULT_PROOF_PAGE_SIZE = 20
+const MAX_PROOF_PAGE_SIZE = 100
+
+export interface ProofListQuery {
+  page: number
+  pageSize: number
+  sortBy: ProofSortField
+  sortOrder: "asc" | "desc"
+  status?: ProofStatus
+  fileType?: ProofFileTypeFilter
+  kind?: ProofKindFilter
+  // Scopes the list to one term; set by the route rather than parsed from the URL
+  termId?: number
+}
+
+export const DEFAULT_PROOF_LIST_QUERY: ProofListQuery = {
+  page: 1,
+  pageSize: DEFAULT_PROOF_PAGE_SIZE,
+  sortBy: "created_at",
+  sortOrder: "desc",
+}
+
+type SearchParams = Record<string, string | string[] | undefined>
+
+function firstValue(value: string | string[] | undefined) {
+  return Array.isArray(value) ? value[0] : value
+}
+
+function includes<T extends string>(values: readonly T[], value: string | undefined): value is T {
+  return value !== undefined && (values as readonly string[]).includes(value)
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number) {
+  const parsed = Number.parseInt(value ?? "", 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback
+}
+
+// Unknown or malformed params fall back to defaults instead of erroring
+export function parseProofListQuery(searchParams: SearchParams): ProofListQuery {
+  const sortBy = firstValue(searchParams.sort)
+  const sortOrder = firstValue(searchParams.order)
+  const status = firstValue(searchParams.status)
+  const fileType = firstValue(searchParams.type)
+  const kind = firstValue(searchParams.kind)
+
+  return {
+    page: parsePositiveInt(firstValue(searchParams.page), DEFAULT_PROOF_LIST_QUERY.page),
+    pageSize: Math.min(
+      parsePositiveInt(firstValue(searchParams.pageSize), DEFAULT_PROOF_LIST_QUERY.pageSize),
+      MAX_PROOF_PAGE_SIZE,
+    ),
+    sortBy: includes(PROOF_SORT_FIELDS, sortBy) ? sortBy : DEFAULT_PROOF_LIST_QUERY.sortBy,
+    sortOrder: sortOrder === "asc" || sortOrder === "desc" ? sortOrder : DEFAULT_PROOF_LIST_QUERY.sortOrder,
+    status: isProofStatus(status) ? status : undefined,
+    fileType: includes(PROOF_FILE_TYPES, fileType) ? fileType : undefined,
+    kind: includes(PROOF_KINDS, kind) ? kind : undefined,
+  }
+}
+
+// Serializes a query back to URL params, leaving out anything that matches the defaults
+export function buildProofListHref(query: ProofListQuery, basePath = "/proofs") {
+  const params = new URLSearchParams()
+
+  if (query.page !== DEFAULT_PROOF_LIST_QUERY.page) params.set("page", String(query.page))
+  if (query.pageSize !== DEFAULT_PROOF_LIST_QUERY.pageSize) params.set("pageSize", String(query.pageSize))
+  if (query.sortBy !== DEFAULT_PROOF_LIST_QUERY.sortBy) params.set("sort", query.sortBy)
+  if (query.sortOrder !== DEFAULT_PROOF_LIST_QUERY.sortOrder) params.set("order", query.sortOrder)
+  if (query.status) params.set("status", query.status)
+  if (query.fileType) params.set("type", query.fileType)
+  if (query.kind) params.set("kind", query.kind)
+
+  const search = params.toString()
+  return search ? `${basePath}?${search}` : basePath
+}
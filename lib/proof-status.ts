@@ -0,0 +1,77 @@
+// Proof review status model
+export const PROOF_STATUSES = ["pending", "under_review", "approved", "rejected", "needs_changes"] as const
+
+export type ProofStatus = (typeof PROOF_STATUSES)[number]
+
+export const INITIAL_PROOF_STATUS: ProofStatus = "pending"
+
+// Legal transitions: a reviewer picks up a pending proof, then decides on it.
+// Proofs sent back for changes return to the queue once the submitter resubmits.
+export const PROOF_STATUS_TRANSITIONS: Record<ProofStatus, readonly ProofStatus[]> = {
+  pending: ["under_review"],
+  under_review: ["approved", "rejected", "needs_changes"],
+  needs_changes: ["pending"],
+  approved: [],
+  rejected: [],
+}
+
+// Recorded as the reviewer of status changes the submitter makes
+export const SUBMITTER_ID = "submitter"
+
+// Decisions that must be explained to the submitter
+const STATUSES_REQUIRING_NOTES: readonly ProofStatus[] = ["rejected", "needs_changes"]
+
+export const PROOF_STATUS_LABELS: Record<ProofStatus, string> = {
+  pending: "Pending",
+  under_review: "Under Review",
+  approved: "Approved",
+  rejected: "Rejected",
+  needs_changes: "Needs Changes",
+}
+
+export function isProofStatus(value: unknown): value is ProofStatus {
+  return typeof value === "string" && (PROOF_STATUSES as readonly string[]).includes(value)
+}
+
+export function canTransition(from: ProofStatus, to: ProofStatus): boolean {
+  return PROOF_STATUS_TRANSITIONS[from].includes(to)
+}
+
+// Resubmitting after a reviewer asked for changes is the submitter's move; every other transition is
+// a reviewer's decision
+export function isSubmitterTransition(from: ProofStatus, to: ProofStatus): boolean {
+  return from === "needs_changes" && to === "pending"
+}
+
+export function getReviewerTransitions(from: ProofStatus): ProofStatus[] {
+  return PROOF_STATUS_TRANSITIONS[from].filter((to) => !isSubmitterTransition(from, to))
+}
+
+export function requiresReviewerNotes(status: ProofStatus): boolean {
+  return STATUSES_REQUIRING_NOTES.includes(status)
+}
+
+export function isFinalStatus(status: ProofStatus): boolean {
+  return PROOF_STATUS_TRANSITIONS[status].length === 0
+}
+
+// Returns an error message when the transition is not allowed, otherwise undefined
+export function validateTransition(
+  from: ProofStatus,
+  to: ProofStatus,
+  review: { reviewerId?: string; notes?: string },
+): string | undefined {
+  if (!canTransition(from, to)) {
+    return `Cannot change proof status from "${from}" to "${to}"`
+  }
+
+  if (!review.reviewerId?.trim()) {
+    return "A reviewer is required to change the proof status"
+  }
+
+  if (requiresReviewerNotes(to) && !review.notes?.trim()) {
+    return `Reviewer notes are required when marking a proof as "${PROOF_STATUS_LABELS[to]}"`
+  }
+
+  return undefined
+}
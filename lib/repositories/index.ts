@@ -0,0 +1,72 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js"
+import {
+  createMemoryProofRepository,
+  createMemoryStore,
+  createMemoryTermRepository,
+  type MemoryStore,
+} from "./memory-repository"
+import { createSupabaseProofRepository, createSupabaseTermRepository } from "./supabase-repository"
+import type { ProofRepository, TermRepository } from "./types"
+
+export type * from "./types"
+
+let supabaseAdmin: SupabaseClient | undefined
+let proofRepository: ProofRepository | undefined
+let termRepository: TermRepository | undefined
+
+// Repositories are created on first use so importing this module never needs credentials
+function getRepositoryKind() {
+  const kind = process.env.DATA_REPOSITORY ?? "supabase"
+  if (kind !== "supabase" && kind !== "memory") {
+    throw new Error(`Unknown DATA_REPOSITORY "${kind}"`)
+  }
+  return kind
+}
+
+function getSupabaseAdmin() {
+  if (supabaseAdmin) return supabaseAdmin
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceKey) {
+    throw new Error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for the Supabase repository")
+  }
+
+  // Server-side Supabase client with service role
+  supabaseAdmin = createClient(url, serviceKey)
+  return supabaseAdmin
+}
+
+// Kept on globalThis so the data survives dev server reloads and is shared by every route
+function getMemoryStore(): MemoryStore {
+  const globalStore = globalThis as typeof globalThis & { __proofMemoryStore?: MemoryStore }
+
+  globalStore.__proofMemoryStore ??= createMemoryStore([
+    {
+      title: "Sample term",
+      description: "A term seeded by the in-memory repository so proofs can be submitted locally.",
+      requiredProofTypes: [],
+      createdAt: new Date().toISOString(),
+    },
+  ])
+
+  return globalStore.__proofMemoryStore
+}
+
+export function getProofRepository(): ProofRepository {
+  proofRepository ??=
+    getRepositoryKind() === "memory"
+      ? createMemoryProofRepository(getMemoryStore())
+      : createSupabaseProofRepository(getSupabaseAdmin())
+
+  return proofRepository
+}
+
+export function getTermRepository(): TermRepository {
+  termRepository ??=
+    getRepositoryKind() === "memory"
+      ? createMemoryTermRepository(getMemoryStore())
+      : createSupabaseTermRepository(getSupabaseAdmin())
+
+  return termRepository
+}
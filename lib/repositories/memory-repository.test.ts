@@ -0,0 +1,217 @@
+import { beforeEach, describe, expect, it } from "vitest"
+import { DEFAULT_PROOF_LIST_QUERY } from "../proof-query"
+import { createMemoryProofRepository, createMemoryStore, createMemoryTermRepository } from "./memory-repository"
+import type { NewProof, ProofAttachmentInput, ProofRepository, TermRepository } from "./types"
+
+const attachment = (overrides: Partial<ProofAttachmentInput> = {}): ProofAttachmentInput => ({
+  fileName: "photo.jpg",
+  filePath: "proofs/photo.jpg",
+  fileSize: 100,
+  fileType: "image/jpeg",
+  ...overrides,
+})
+
+const newProof = (overrides: Partial<NewProof> = {}): NewProof => ({
+  termId: 1,
+  attachments: [],
+  status: "pending",
+  createdAt: "2024-05-01T00:00:00.000Z",
+  ...overrides,
+})
+
+describe("memory proof repository", () => {
+  let proofs: ProofRepository
+
+  beforeEach(() => {
+    proofs = createMemoryProofRepository(createMemoryStore())
+  })
+
+  it("creates a proof with its attachments and summarizes the primary file", async () => {
+    const created = await proofs.create(
+      newProof({
+        attachments: [attachment(), attachment({ fileName: "clip.mp4", filePath: "proofs/clip.mp4", fileSize: 50 })],
+      }),
+    )
+
+    expect(created).toMatchObject({
+      fileName: "photo.jpg",
+      filePath: "proofs/photo.jpg",
+      fileSize: 150,
+      attachmentCount: 2,
+    })
+    expect(created.attachments?.map((file) => [file.position, file.fileName])).toEqual([
+      [0, "photo.jpg"],
+      [1, "clip.mp4"],
+    ])
+    expect(await proofs.get(created.id)).toEqual(created)
+  })
+
+  it("resolves to null for a proof that does not exist", async () => {
+    expect(await proofs.get(404)).toBeNull()
+  })
+
+  it("hands out copies, so changing a result leaves the store alone", async () => {
+    const created = await proofs.create(newProof({ attachments: [attachment()] }))
+    created.attachments![0].fileName = "changed.jpg"
+    created.status = "approved"
+
+    const stored = await proofs.get(created.id)
+    expect(stored?.status).toBe("pending")
+    expect(stored?.attachments?.[0].fileName).toBe("photo.jpg")
+  })
+
+  it("filters by status, kind and attachment type", async () => {
+    const link = await proofs.create(newProof({ proofLink: "https://example.com" }))
+    const photo = await proofs.create(newProof({ attachments: [attachment()] }))
+    const pdf = await proofs.create(
+      newProof({
+        status: "approved",
+        attachments: [attachment({ fileName: "doc.pdf", filePath: "proofs/doc.pdf", fileType: "application/pdf" })],
+      }),
+    )
+
+    const ids = async (query: Partial<typeof DEFAULT_PROOF_LIST_QUERY>) =>
+      (await proofs.list({ ...DEFAULT_PROOF_LIST_QUERY, sortOrder: "asc", ...query })).proofs.map((proof) => proof.id)
+
+    expect(await ids({ kind: "link" })).toEqual([link.id])
+    expect(await ids({ kind: "file" })).toEqual([photo.id, pdf.id])
+    expect(await ids({ fileType: "image" })).toEqual([photo.id])
+    expect(await ids({ fileType: "application" })).toEqual([pdf.id])
+    expect(await ids({ status: "approved" })).toEqual([pdf.id])
+    expect(await ids({ termId: 2 })).toEqual([])
+  })
+
+  it("sorts missing sizes last and pages through the results", async () => {
+    const link = await proofs.create(newProof({ proofLink: "https://example.com" }))
+    const small = await proofs.create(newProof({ attachments: [attachment({ fileSize: 10 })] }))
+    const large = await proofs.create(newProof({ attachments: [attachment({ fileSize: 1000 })] }))
+
+    const query = { ...DEFAULT_PROOF_LIST_QUERY, sortBy: "file_size" as const, pageSize: 2 }
+    const firstPage = await proofs.list({ ...query, sortOrder: "desc" })
+    const secondPage = await proofs.list({ ...query, sortOrder: "desc", page: 2 })
+
+    expect(firstPage.total).toBe(3)
+    expect(firstPage.proofs.map((proof) => proof.id)).toEqual([large.id, small.id])
+    expect(secondPage.proofs.map((proof) => proof.id)).toEqual([link.id])
+
+    const ascending = await proofs.list({ ...query, sortOrder: "asc", pageSize: 3 })
+    expect(ascending.proofs.map((proof) => proof.id)).toEqual([small.id, large.id, link.id])
+  })
+
+  it("only changes the status from the expected one and records the change", async () => {
+    const { id } = await proofs.create(newProof())
+    const update = {
+      proofId: id,
+      fromStatus: "pending" as const,
+      toStatus: "approved" as const,
+      reviewerId: "reviewer@example.com",
+      notes: "Looks good",
+      updatedAt: "2024-05-02T00:00:00.000Z",
+    }
+
+    expect(await proofs.updateStatus(update)).toBe(true)
+    expect(await proofs.updateStatus(update)).toBe(false)
+
+    expect(await proofs.get(id)).toMatchObject({
+      status: "approved",
+      reviewerId: "reviewer@example.com",
+      reviewerNotes: "Looks good",
+      statusUpdatedAt: "2024-05-02T00:00:00.000Z",
+    })
+    expect(await proofs.listStatusEvents(id)).toEqual([
+      expect.objectContaining({ fromStatus: "pending", toStatus: "approved", reviewerId: "reviewer@example.com" }),
+    ])
+  })
+
+  it("keeps the last review on the proof when the submitter resubmits", async () => {
+    const { id } = await proofs.create(newProof({ status: "needs_changes" }))
+
+    const resubmitted = await proofs.updateStatus({
+      proofId: id,
+      fromStatus: "needs_changes",
+      toStatus: "pending",
+      reviewerId: "submitter",
+      notes: "Added a clearer photo",
+      bySubmitter: true,
+      updatedAt: "2024-05-02T00:00:00.000Z",
+    })
+
+    expect(resubmitted).toBe(true)
+    const proof = await proofs.get(id)
+    expect(proof).toMatchObject({ status: "pending", statusUpdatedAt: "2024-05-02T00:00:00.000Z" })
+    expect(proof?.reviewerId).toBeUndefined()
+    expect(proof?.reviewerNotes).toBeUndefined()
+    expect(await proofs.listStatusEvents(id)).toEqual([
+      expect.objectContaining({ toStatus: "pending", reviewerId: "submitter", notes: "Added a clearer photo" }),
+    ])
+  })
+
+  it("finds earlier proofs sharing a file or link, leaving out the one being checked", async () => {
+    const first = await proofs.create(
+      newProof({
+        normalizedProofLink: "https://example.com/a",
+        attachments: [attachment({ sha256: "a".repeat(64) })],
+        createdAt: "2024-05-01T00:00:00.000Z",
+      }),
+    )
+    const second = await proofs.create(
+      newProof({
+        normalizedProofLink: "https://example.com/a",
+        attachments: [attachment({ sha256: "b".repeat(64) })],
+        createdAt: "2024-05-02T00:00:00.000Z",
+      }),
+    )
+
+    const duplicates = await proofs.findDuplicates({
+      sha256s: ["a".repeat(64), "b".repeat(64)],
+      normalizedProofLink: "https://example.com/a",
+      excludeProofId: second.id,
+    })
+
+    expect(duplicates).toEqual([
+      expect.objectContaining({ proofId: first.id, match: "file", sha256: "a".repeat(64), fileName: "photo.jpg" }),
+      expect.objectContaining({ proofId: first.id, match: "link" }),
+    ])
+  })
+
+  it("reports which storage paths are still referenced", async () => {
+    const { id } = await proofs.create(
+      newProof({ attachments: [attachment({ filePath: "proofs/a.jpg", thumbnailPath: "proofs/a.thumb.webp" })] }),
+    )
+    await proofs.updateLinkArchive(id, { checkedAt: "2024-05-01T00:00:00.000Z" }, "snapshots/a.html")
+
+    const paths = ["proofs/a.jpg", "proofs/a.thumb.webp", "snapshots/a.html", "proofs/orphan.jpg"]
+    expect(await proofs.findReferencedFilePaths(paths)).toEqual(paths.slice(0, 3))
+
+    await proofs.delete(id)
+    expect(await proofs.findReferencedFilePaths(paths)).toEqual([])
+    expect(await proofs.listStatusEvents(id)).toEqual([])
+  })
+})
+
+describe("memory term repository", () => {
+  let terms: TermRepository
+
+  beforeEach(() => {
+    terms = createMemoryTermRepository(createMemoryStore())
+  })
+
+  it("lists terms by due date with undated terms last", async () => {
+    const createdAt = "2024-05-01T00:00:00.000Z"
+    const undated = await terms.create({ title: "Undated", createdAt })
+    const later = await terms.create({ title: "Later", dueDate: "2024-07-01", createdAt })
+    const sooner = await terms.create({ title: "Sooner", dueDate: "2024-06-01", createdAt })
+
+    expect((await terms.list()).map((term) => term.id)).toEqual([sooner.id, later.id, undated.id])
+    expect(undated.requiredProofTypes).toEqual([])
+    expect(await terms.get(later.id)).toEqual(later)
+  })
+
+  it("numbers seeded terms ahead of new records", async () => {
+    const store = createMemoryStore([{ title: "Seeded", requiredProofTypes: ["link"], createdAt: "2024-05-01" }])
+
+    expect(await createMemoryTermRepository(store).get(1)).toMatchObject({ title: "Seeded" })
+    const proof = await createMemoryProofRepository(store).create(newProof())
+    expect(proof.id).toBe(2)
+  })
+})
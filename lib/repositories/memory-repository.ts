@@ -0,0 +1,247 @@
+import type { Term } from "../terms"
+import type {
+  ProofAttachment,
+  ProofDuplicate,
+  ProofRecord,
+  ProofRepository,
+  ProofStatusEvent,
+  TermRepository,
+} from "./types"
+
+// Process-local store for running without a database, e.g. in development or tests
+export interface MemoryStore {
+  proofs: Map<number, ProofRecord>
+  attachments: Map<number, ProofAttachment[]>
+  statusEvents: ProofStatusEvent[]
+  terms: Map<number, Term>
+  nextId: number
+}
+
+export function createMemoryStore(seedTerms: Omit<Term, "id">[] = []): MemoryStore {
+  const store: MemoryStore = {
+    proofs: new Map(),
+    attachments: new Map(),
+    statusEvents: [],
+    terms: new Map(),
+    nextId: 1,
+  }
+
+  for (const term of seedTerms) {
+    const id = store.nextId++
+    store.terms.set(id, { ...term, id })
+  }
+
+  return store
+}
+
+// Records are copied in and out so callers can't mutate the store by accident
+const clone = <T>(value: T): T => structuredClone(value)
+
+export function createMemoryProofRepository(store: MemoryStore): ProofRepository {
+  const withAttachments = (proof: ProofRecord): ProofRecord => ({
+    ...clone(proof),
+    attachments: clone(store.attachments.get(proof.id) ?? []),
+  })
+
+  return {
+    async create(proof) {
+      const id = store.nextId++
+      const primary = proof.attachments[0]
+
+      const record: ProofRecord = {
+        id,
+        termId: proof.termId,
+        proofLink: proof.proofLink,
+        normalizedProofLink: proof.normalizedProofLink,
+        fileName: primary?.fileName,
+        filePath: primary?.filePath,
+        fileType: primary?.fileType,
+        thumbnailPath: primary?.thumbnailPath,
+        fileSize: primary ? proof.attachments.reduce((total, attachment) => total + attachment.fileSize, 0) : undefined,
+        attachmentCount: proof.attachments.length,
+        status: proof.status,
+        createdAt: proof.createdAt,
+      }
+
+      store.proofs.set(id, record)
+      store.attachments.set(
+        id,
+        proof.attachments.map((attachment, position) => ({
+          ...clone(attachment),
+          id: store.nextId++,
+          proofId: id,
+          position,
+          createdAt: proof.createdAt,
+        })),
+      )
+
+      return withAttachments(record)
+    },
+
+    async get(id) {
+      const proof = store.proofs.get(id)
+      return proof ? withAttachments(proof) : null
+    },
+
+    async list(query) {
+      const matches = [...store.proofs.values()].filter((proof) => {
+        if (query.termId && proof.termId !== query.termId) return false
+        if (query.status && proof.status !== query.status) return false
+        if (query.kind === "link" && proof.attachmentCount > 0) return false
+        if (query.kind === "file" && proof.attachmentCount === 0) return false
+        if (query.fileType) {
+          const attachments = store.attachments.get(proof.id) ?? []
+          if (!attachments.some((attachment) => attachment.fileType.startsWith(`${query.fileType}/`))) return false
+        }
+        return true
+      })
+
+      const direction = query.sortOrder === "asc" ? 1 : -1
+      const sortValue = (proof: ProofRecord) =>
+        query.sortBy === "file_size" ? proof.fileSize : new Date(proof.createdAt).getTime()
+
+      // Same ordering as the database: missing values last, then by id
+      matches.sort((a, b) => {
+        const aValue = sortValue(a)
+        const bValue = sortValue(b)
+        if (aValue === undefined && bValue !== undefined) return 1
+        if (bValue === undefined && aValue !== undefined) return -1
+        if (aValue !== undefined && bValue !== undefined && aValue !== bValue) return (aValue - bValue) * direction
+        return (a.id - b.id) * direction
+      })
+
+      const from = (query.page - 1) * query.pageSize
+      return {
+        proofs: matches.slice(from, from + query.pageSize).map((proof) => clone(proof)),
+        total: matches.length,
+      }
+    },
+
+    async updateStatus(update) {
+      const proof = store.proofs.get(update.proofId)
+      if (!proof || proof.status !== update.fromStatus) {
+        return false
+      }
+
+      store.proofs.set(update.proofId, {
+        ...proof,
+        status: update.toStatus,
+        ...(!update.bySubmitter && { reviewerId: update.reviewerId, reviewerNotes: update.notes }),
+        statusUpdatedAt: update.updatedAt,
+      })
+
+      store.statusEvents.push({
+        id: store.nextId++,
+        proofId: update.proofId,
+        fromStatus: update.fromStatus,
+        toStatus: update.toStatus,
+        reviewerId: update.reviewerId,
+        notes: update.notes,
+        createdAt: update.updatedAt,
+      })
+
+      return true
+    },
+
+    async updateLinkPreview(proofId, preview) {
+      const proof = store.proofs.get(proofId)
+      if (proof) {
+        store.proofs.set(proofId, { ...proof, linkPreview: clone(preview) })
+      }
+    },
+
+    async updateLinkArchive(proofId, check, snapshotPath) {
+      const proof = store.proofs.get(proofId)
+      if (proof) {
+        store.proofs.set(proofId, { ...proof, linkCheck: clone(check), linkSnapshotPath: snapshotPath })
+      }
+    },
+
+    async delete(id) {
+      store.proofs.delete(id)
+      store.attachments.delete(id)
+      store.statusEvents = store.statusEvents.filter((event) => event.proofId !== id)
+    },
+
+    async listStatusEvents(proofId) {
+      return clone(store.statusEvents.filter((event) => event.proofId === proofId))
+    },
+
+    async findDuplicates(query) {
+      const duplicates: ProofDuplicate[] = []
+
+      for (const proof of store.proofs.values()) {
+        if (proof.id === query.excludeProofId) continue
+
+        for (const attachment of store.attachments.get(proof.id) ?? []) {
+          if (attachment.sha256 && query.sha256s.includes(attachment.sha256)) {
+            duplicates.push({
+              proofId: proof.id,
+              termId: proof.termId,
+              createdAt: proof.createdAt,
+              match: "file",
+              sha256: attachment.sha256,
+              fileName: attachment.fileName,
+            })
+          }
+        }
+
+        if (query.normalizedProofLink && proof.normalizedProofLink === query.normalizedProofLink) {
+          duplicates.push({ proofId: proof.id, termId: proof.termId, createdAt: proof.createdAt, match: "link" })
+        }
+      }
+
+      return duplicates.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.proofId - b.proofId)
+    },
+
+    async findReferencedFilePaths(paths) {
+      const referenced = new Set(
+        [...store.attachments.values()].flatMap((attachments) =>
+          attachments.flatMap(({ filePath, thumbnailPath }) =>
+            thumbnailPath ? [filePath, thumbnailPath] : [filePath],
+          ),
+        ),
+      )
+      for (const proof of store.proofs.values()) {
+        if (proof.linkSnapshotPath) referenced.add(proof.linkSnapshotPath)
+      }
+      return paths.filter((path) => referenced.has(path))
+    },
+  }
+}
+
+export function createMemoryTermRepository(store: MemoryStore): TermRepository {
+  return {
+    async create(term) {
+      const id = store.nextId++
+      const record: Term = {
+        id,
+        title: term.title,
+        description: term.description,
+        requiredProofTypes: term.requiredProofTypes ?? [],
+        dueDate: term.dueDate,
+        createdAt: term.createdAt,
+      }
+
+      store.terms.set(id, record)
+      return clone(record)
+    },
+
+    async get(id) {
+      const term = store.terms.get(id)
+      return term ? clone(term) : null
+    },
+
+    async list() {
+      // Same ordering as the database: by due date with undated terms last, then by id
+      return [...store.terms.values()]
+        .sort((a, b) => {
+          if (a.dueDate && b.dueDate && a.dueDate !== b.dueDate) return a.dueDate < b.dueDate ? -1 : 1
+          if (a.dueDate && !b.dueDate) return -1
+          if (!a.dueDate && b.dueDate) return 1
+          return a.id - b.id
+        })
+        .map((term) => clone(term))
+    },
+  }
+}
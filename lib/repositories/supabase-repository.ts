@@ -0,0 +1,495 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import type { MediaMetadata } from "../exif"
+import type { LinkCheck } from "../link-archive"
+import type { LinkPreview } from "../link-preview"
+import type { ProofStatus } from "../proof-status"
+import { isTermProofType, type Term } from "../terms"
+import type {
+  ProofAttachment,
+  ProofDuplicate,
+  ProofRecord,
+  ProofRepository,
+  ProofStatusEvent,
+  TermRepository,
+} from "./types"
+
+// Paths per `in` filter, keeping request URLs well under server limits
+const PATH_BATCH_SIZE = 100
+
+// Row shapes as Supabase returns them; nullable columns come back as null rather than missing
+interface ProofRow {
+  id: number
+  term_id: number
+  proof_link: string | null
+  normalized_proof_link: string | null
+  link_preview: LinkPreview | null
+  link_check: LinkCheck | null
+  link_snapshot_path: string | null
+  file_name: string | null
+  file_path: string | null
+  file_type: string | null
+  thumbnail_path: string | null
+  file_size: number | null
+  attachment_count: number | null
+  status: ProofStatus
+  reviewer_id: string | null
+  reviewer_notes: string | null
+  status_updated_at: string | null
+  created_at: string
+}
+
+interface ProofAttachmentRow {
+  id: number
+  proof_id: number
+  position: number
+  file_name: string
+  file_path: string
+  file_size: number
+  file_type: string
+  sha256: string | null
+  thumbnail_path: string | null
+  metadata: MediaMetadata | null
+  created_at: string
+}
+
+interface ProofStatusEventRow {
+  id: number
+  proof_id: number
+  from_status: ProofStatus
+  to_status: ProofStatus
+  reviewer_id: string
+  notes: string | null
+  created_at: string
+}
+
+interface TermRow {
+  id: number
+  title: string
+  description: string | null
+  // Unchecked text; unknown types are dropped when mapping
+  required_proof_types: string[] | null
+  due_date: string | null
+  created_at: string
+}
+
+// `*, proof_attachments(*)`
+type ProofWithAttachmentsRow = ProofRow & { proof_attachments: ProofAttachmentRow[] | null }
+
+// `sha256, file_name, proofs!inner(id, term_id, created_at)`
+type AttachmentDuplicateRow = Pick<ProofAttachmentRow, "sha256" | "file_name"> & {
+  proofs: Pick<ProofRow, "id" | "term_id" | "created_at">
+}
+
+// `id, term_id, created_at`
+type ProofDuplicateRow = Pick<ProofRow, "id" | "term_id" | "created_at">
+
+// Maps a `proofs` table row to its camelCase record
+function mapProofRow(row: ProofRow): ProofRecord {
+  return {
+    id: row.id,
+    termId: row.term_id,
+    proofLink: row.proof_link ?? undefined,
+    normalizedProofLink: row.normalized_proof_link ?? undefined,
+    linkPreview: row.link_preview ?? undefined,
+    linkCheck: row.link_check ?? undefined,
+    linkSnapshotPath: row.link_snapshot_path ?? undefined,
+    fileName: row.file_name ?? undefined,
+    filePath: row.file_path ?? undefined,
+    fileType: row.file_type ?? undefined,
+    thumbnailPath: row.thumbnail_path ?? undefined,
+    fileSize: row.file_size ?? undefined,
+    attachmentCount: row.attachment_count ?? 0,
+    status: row.status,
+    reviewerId: row.reviewer_id ?? undefined,
+    reviewerNotes: row.reviewer_notes ?? undefined,
+    statusUpdatedAt: row.status_updated_at ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Maps a `proof_attachments` table row to its camelCase record
+function mapAttachmentRow(row: ProofAttachmentRow): ProofAttachment {
+  return {
+    id: row.id,
+    proofId: row.proof_id,
+    position: row.position,
+    fileName: row.file_name,
+    filePath: row.file_path,
+    fileSize: row.file_size,
+    fileType: row.file_type,
+    sha256: row.sha256 ?? undefined,
+    thumbnailPath: row.thumbnail_path ?? undefined,
+    metadata: row.metadata ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Maps a `proof_status_events` table row to its camelCase record
+function mapStatusEventRow(row: ProofStatusEventRow): ProofStatusEvent {
+  return {
+    id: row.id,
+    proofId: row.proof_id,
+    fromStatus: row.from_status,
+    toStatus: row.to_status,
+    reviewerId: row.reviewer_id,
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Maps a `terms` table row to its camelCase record
+function mapTermRow(row: TermRow): Term {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? undefined,
+    requiredProofTypes: (row.required_proof_types ?? []).filter(isTermProofType),
+    dueDate: row.due_date ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Both repositories expect a client created with the service role key
+export function createSupabaseProofRepository(supabaseAdmin: SupabaseClient): ProofRepository {
+  return {
+    async create(proof) {
+      const primary = proof.attachments[0]
+
+      const { data, error } = await supabaseAdmin
+        .from("proofs")
+        .insert([
+          {
+            term_id: proof.termId,
+            proof_link: proof.proofLink,
+            normalized_proof_link: proof.normalizedProofLink ?? null,
+            file_name: primary?.fileName,
+            file_path: primary?.filePath,
+            file_type: primary?.fileType,
+            thumbnail_path: primary?.thumbnailPath ?? null,
+            file_size: primary ? proof.attachments.reduce((total, attachment) => total + attachment.fileSize, 0) : null,
+            attachment_count: proof.attachments.length,
+            created_at: proof.createdAt,
+            status: proof.status,
+          },
+        ])
+        .select("*")
+        .single()
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const row: ProofRow = data
+
+      if (proof.attachments.length === 0) {
+        return { ...mapProofRow(row), attachments: [] }
+      }
+
+      const { data: attachmentRows, error: attachmentError } = await supabaseAdmin
+        .from("proof_attachments")
+        .insert(
+          proof.attachments.map((attachment, position) => ({
+            proof_id: row.id,
+            position,
+            file_name: attachment.fileName,
+            file_path: attachment.filePath,
+            file_size: attachment.fileSize,
+            file_type: attachment.fileType,
+            sha256: attachment.sha256 ?? null,
+            thumbnail_path: attachment.thumbnailPath ?? null,
+            metadata: attachment.metadata ?? null,
+            created_at: proof.createdAt,
+          })),
+        )
+        .select("*")
+
+      if (attachmentError) {
+        // Don't leave a proof behind that claims attachments it doesn't have
+        await supabaseAdmin.from("proofs").delete().eq("id", row.id)
+        throw new Error(attachmentError.message)
+      }
+
+      return {
+        ...mapProofRow(row),
+        attachments: (attachmentRows as ProofAttachmentRow[])
+          .map(mapAttachmentRow)
+          .sort((a, b) => a.position - b.position),
+      }
+    },
+
+    async get(id) {
+      const { data, error } = await supabaseAdmin
+        .from("proofs")
+        .select("*, proof_attachments(*)")
+        .eq("id", id)
+        .order("position", { referencedTable: "proof_attachments", ascending: true })
+        .maybeSingle()
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      if (!data) {
+        return null
+      }
+
+      const row: ProofWithAttachmentsRow = data
+      return { ...mapProofRow(row), attachments: (row.proof_attachments ?? []).map(mapAttachmentRow) }
+    },
+
+    async list(query) {
+      const from = (query.page - 1) * query.pageSize
+      const to = from + query.pageSize - 1
+
+      // Filtering on attachment type needs an inner join so proofs without a match drop out
+      let request = query.fileType
+        ? supabaseAdmin.from("proofs").select("*, proof_attachments!inner(file_type)", { count: "exact" })
+        : supabaseAdmin.from("proofs").select("*", { count: "exact" })
+
+      if (query.termId) {
+        request = request.eq("term_id", query.termId)
+      }
+
+      if (query.status) {
+        request = request.eq("status", query.status)
+      }
+
+      if (query.fileType) {
+        request = request.like("proof_attachments.file_type", `${query.fileType}/%`)
+      }
+
+      // Link proofs have no files attached; file proofs may also carry a link
+      if (query.kind === "link") {
+        request = request.eq("attachment_count", 0)
+      } else if (query.kind === "file") {
+        request = request.gt("attachment_count", 0)
+      }
+
+      const { data, error, count } = await request
+        .order(query.sortBy, { ascending: query.sortOrder === "asc", nullsFirst: false })
+        .order("id", { ascending: query.sortOrder === "asc" })
+        .range(from, to)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return { proofs: (data as ProofRow[]).map(mapProofRow), total: count ?? 0 }
+    },
+
+    async updateStatus(update) {
+      const { data: updated, error: updateError } = await supabaseAdmin
+        .from("proofs")
+        .update({
+          status: update.toStatus,
+          ...(!update.bySubmitter && { reviewer_id: update.reviewerId, reviewer_notes: update.notes ?? null }),
+          status_updated_at: update.updatedAt,
+        })
+        .eq("id", update.proofId)
+        .eq("status", update.fromStatus)
+        .select("id")
+
+      if (updateError) {
+        throw new Error(updateError.message)
+      }
+
+      if (!updated || updated.length === 0) {
+        return false
+      }
+
+      const { error: eventError } = await supabaseAdmin.from("proof_status_events").insert([
+        {
+          proof_id: update.proofId,
+          from_status: update.fromStatus,
+          to_status: update.toStatus,
+          reviewer_id: update.reviewerId,
+          notes: update.notes ?? null,
+          created_at: update.updatedAt,
+        },
+      ])
+
+      if (eventError) {
+        console.error("Failed to record status event:", eventError)
+      }
+
+      return true
+    },
+
+    async updateLinkPreview(proofId, preview) {
+      const { error } = await supabaseAdmin.from("proofs").update({ link_preview: preview }).eq("id", proofId)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    },
+
+    async updateLinkArchive(proofId, check, snapshotPath) {
+      const { error } = await supabaseAdmin
+        .from("proofs")
+        .update({ link_check: check, link_snapshot_path: snapshotPath ?? null })
+        .eq("id", proofId)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    },
+
+    async delete(id) {
+      const { error } = await supabaseAdmin.from("proofs").delete().eq("id", id)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    },
+
+    async listStatusEvents(proofId) {
+      const { data, error } = await supabaseAdmin
+        .from("proof_status_events")
+        .select("*")
+        .eq("proof_id", proofId)
+        .order("created_at", { ascending: true })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return (data as ProofStatusEventRow[]).map(mapStatusEventRow)
+    },
+
+    async findDuplicates(query) {
+      const duplicates: ProofDuplicate[] = []
+
+      if (query.sha256s.length > 0) {
+        let request = supabaseAdmin
+          .from("proof_attachments")
+          .select("sha256, file_name, proofs!inner(id, term_id, created_at)")
+          .in("sha256", query.sha256s)
+
+        if (query.excludeProofId) {
+          request = request.neq("proof_id", query.excludeProofId)
+        }
+
+        // Without generated database types the embedded parent is inferred as a list, but a many-to-one
+        // join comes back as a single row
+        const { data, error } = await request.overrideTypes<AttachmentDuplicateRow[], { merge: false }>()
+        if (error) {
+          throw new Error(error.message)
+        }
+
+        for (const row of data) {
+          duplicates.push({
+            proofId: row.proofs.id,
+            termId: row.proofs.term_id,
+            createdAt: row.proofs.created_at,
+            match: "file",
+            sha256: row.sha256 ?? undefined,
+            fileName: row.file_name,
+          })
+        }
+      }
+
+      if (query.normalizedProofLink) {
+        let request = supabaseAdmin
+          .from("proofs")
+          .select("id, term_id, created_at")
+          .eq("normalized_proof_link", query.normalizedProofLink)
+
+        if (query.excludeProofId) {
+          request = request.neq("id", query.excludeProofId)
+        }
+
+        const { data, error } = await request
+        if (error) {
+          throw new Error(error.message)
+        }
+
+        for (const row of data as ProofDuplicateRow[]) {
+          duplicates.push({ proofId: row.id, termId: row.term_id, createdAt: row.created_at, match: "link" })
+        }
+      }
+
+      return duplicates.sort((a, b) => a.createdAt.localeCompare(b.createdAt) || a.proofId - b.proofId)
+    },
+
+    async findReferencedFilePaths(paths) {
+      const referenced = new Set<string>()
+
+      const columns = [
+        ["proof_attachments", "file_path"],
+        ["proof_attachments", "thumbnail_path"],
+        ["proofs", "link_snapshot_path"],
+      ]
+
+      for (const [table, column] of columns) {
+        for (let start = 0; start < paths.length; start += PATH_BATCH_SIZE) {
+          // Only the selected column is in each row, and rows only match when it is set
+          const { data, error } = await supabaseAdmin
+            .from(table)
+            .select(column)
+            .in(column, paths.slice(start, start + PATH_BATCH_SIZE))
+            .overrideTypes<Record<string, string>[], { merge: false }>()
+
+          if (error) {
+            throw new Error(error.message)
+          }
+
+          for (const row of data) {
+            referenced.add(row[column])
+          }
+        }
+      }
+
+      return paths.filter((path) => referenced.has(path))
+    },
+  }
+}
+
+export function createSupabaseTermRepository(supabaseAdmin: SupabaseClient): TermRepository {
+  return {
+    async create(term) {
+      const { data, error } = await supabaseAdmin
+        .from("terms")
+        .insert([
+          {
+            title: term.title,
+            description: term.description ?? null,
+            required_proof_types: term.requiredProofTypes ?? [],
+            due_date: term.dueDate ?? null,
+            created_at: term.createdAt,
+          },
+        ])
+        .select("*")
+        .single()
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return mapTermRow(data as TermRow)
+    },
+
+    async get(id) {
+      const { data, error } = await supabaseAdmin.from("terms").select("*").eq("id", id).maybeSingle()
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return data ? mapTermRow(data as TermRow) : null
+    },
+
+    async list() {
+      const { data, error } = await supabaseAdmin
+        .from("terms")
+        .select("*")
+        .order("due_date", { ascending: true, nullsFirst: false })
+        .order("id", { ascending: true })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return (data as TermRow[]).map(mapTermRow)
+    },
+  }
+}
@@ -0,0 +1,131 @@
+import type { MediaMetadata } from "../exif"
+import type { LinkCheck } from "../link-archive"
+import type { LinkPreview } from "../link-preview"
+import type { ProofListQuery } from "../proof-query"
+import type { ProofStatus } from "../proof-status"
+import type { Term, TermInput } from "../terms"
+
+export interface ProofAttachmentInput {
+  fileName: string
+  // Storage path of the object, as returned by the upload route; URLs are signed on demand
+  filePath: string
+  fileSize: number
+  fileType: string
+  // Hex SHA-256 of the stored file, computed by the server
+  sha256?: string
+  // Storage path of the image thumbnail or video poster frame, if one could be generated
+  thumbnailPath?: string
+  // Capture details read from the file's EXIF and XMP by the server
+  metadata?: MediaMetadata
+}
+
+export interface ProofAttachment extends ProofAttachmentInput {
+  id: number
+  proofId: number
+  position: number
+  createdAt: string
+}
+
+export interface ProofRecord {
+  id: number
+  termId: number
+  proofLink?: string
+  // See normalizeProofLink; used to spot the same link submitted twice
+  normalizedProofLink?: string
+  // Cached unfurl of proofLink, filled in the first time the preview is needed
+  linkPreview?: LinkPreview
+  // Reachability of proofLink when it was submitted, and the storage path of the page snapshot
+  // taken then, if the page could be archived
+  linkCheck?: LinkCheck
+  linkSnapshotPath?: string
+  // Name, storage path and type of the primary attachment, for listings
+  fileName?: string
+  filePath?: string
+  fileType?: string
+  thumbnailPath?: string
+  // Combined size of all attachments
+  fileSize?: number
+  attachmentCount: number
+  attachments?: ProofAttachment[]
+  status: ProofStatus
+  reviewerId?: string
+  reviewerNotes?: string
+  statusUpdatedAt?: string
+  createdAt: string
+}
+
+export interface ProofStatusEvent {
+  id: number
+  proofId: number
+  fromStatus: ProofStatus
+  toStatus: ProofStatus
+  reviewerId: string
+  notes?: string
+  createdAt: string
+}
+
+export interface NewProof {
+  termId: number
+  proofLink?: string
+  normalizedProofLink?: string
+  // In display order; the first attachment is the proof's primary file
+  attachments: ProofAttachmentInput[]
+  status: ProofStatus
+  createdAt: string
+}
+
+export interface ProofStatusUpdate {
+  proofId: number
+  fromStatus: ProofStatus
+  toStatus: ProofStatus
+  reviewerId: string
+  notes?: string
+  updatedAt: string
+  // Set when the submitter makes the change. It is recorded in the history like any other, but the
+  // reviewer and notes on the proof stay those of the last review.
+  bySubmitter?: boolean
+}
+
+export interface DuplicateQuery {
+  sha256s: string[]
+  normalizedProofLink?: string
+  // Leaves out the proof being checked
+  excludeProofId?: number
+}
+
+// An earlier proof sharing a file or link with the one being checked
+export interface ProofDuplicate {
+  proofId: number
+  termId: number
+  createdAt: string
+  match: "file" | "link"
+  // Set for file matches
+  sha256?: string
+  fileName?: string
+}
+
+export interface ProofRepository {
+  // Creates the proof together with its attachments
+  create(proof: NewProof): Promise<ProofRecord>
+  // Includes attachments; resolves to null when the proof does not exist
+  get(id: number): Promise<ProofRecord | null>
+  list(query: ProofListQuery): Promise<{ proofs: ProofRecord[]; total: number }>
+  // Applies the update and records it as a status event, but only if the proof is still in
+  // fromStatus. Resolves to false when someone else changed the status first.
+  updateStatus(update: ProofStatusUpdate): Promise<boolean>
+  updateLinkPreview(proofId: number, preview: LinkPreview): Promise<void>
+  updateLinkArchive(proofId: number, check: LinkCheck, snapshotPath?: string): Promise<void>
+  delete(id: number): Promise<void>
+  listStatusEvents(proofId: number): Promise<ProofStatusEvent[]>
+  // Oldest first; a proof matching on several files or its link is listed once per match
+  findDuplicates(query: DuplicateQuery): Promise<ProofDuplicate[]>
+  // The subset of the given storage paths that some attachment, its thumbnail or a link snapshot
+  // points at
+  findReferencedFilePaths(paths: string[]): Promise<string[]>
+}
+
+export interface TermRepository {
+  create(term: TermInput & { createdAt: string }): Promise<Term>
+  get(id: number): Promise<Term | null>
+  list(): Promise<Term[]>
+}
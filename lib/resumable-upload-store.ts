@@ -0,0 +1,266 @@
+import { randomUUID } from "node:crypto"
+import { createWriteStream, openAsBlob } from "node:fs"
+import { mkdir, open, readdir, readFile, rm, stat, truncate, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import type { ReadableStream as WebReadableStream } from "node:stream/web"
+import { matchesClaimedType, SNIFF_LENGTH, sniffFileType } from "./file-sniffing"
+import { getStorageProvider, isLocalStorageProvider } from "./storage"
+import { getMaxFileSize } from "./validation"
+
+// Server side of the resumable (tus 1.0 style) upload protocol for the local storage provider.
+// Partial uploads are kept on local disk until the last byte arrives, then handed to the provider in
+// one go. With Supabase storage browsers never come here; they upload to Supabase's own resumable
+// endpoint instead.
+
+export const TUS_VERSION = "1.0.0"
+
+// Uploads are discarded after this long; for finished ones that's only the record of where they went
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+
+export interface ResumableUpload {
+  id: string
+  length: number
+  offset: number
+  // Storage path and type the upload was granted, see LocalStorageProvider.createResumableUpload
+  path: string
+  fileType: string
+  cacheControl?: string
+  createdAt: string
+  expiresAt: string
+  // Set once the upload is complete and stored
+  isStored?: boolean
+}
+
+export class ResumableUploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "ResumableUploadError"
+  }
+}
+
+const uploadDir = () => path.resolve(process.env.RESUMABLE_UPLOAD_DIR ?? ".uploads")
+const dataPath = (id: string) => path.join(uploadDir(), `${id}.bin`)
+const infoPath = (id: string) => path.join(uploadDir(), `${id}.json`)
+
+// Upload ids end up in file names, so only accept what randomUUID produces
+const isUploadId = (id: string) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/.test(id)
+
+// Guards against two requests appending to the same upload at once
+const activeWrites = new Set<string>()
+
+async function saveUpload(upload: ResumableUpload) {
+  await writeFile(infoPath(upload.id), JSON.stringify(upload))
+}
+
+async function readUpload(id: string): Promise<ResumableUpload | null> {
+  try {
+    return JSON.parse(await readFile(infoPath(id), "utf8")) as ResumableUpload
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+    throw error
+  }
+}
+
+const isExpired = (upload: ResumableUpload) => new Date(upload.expiresAt).getTime() < Date.now()
+
+async function removeUpload(id: string) {
+  await Promise.all([rm(dataPath(id), { force: true }), rm(infoPath(id), { force: true })])
+}
+
+// Deletes expired uploads, finished or not; run opportunistically whenever a new upload starts
+async function removeExpiredUploads() {
+  const entries = await readdir(uploadDir()).catch(() => [] as string[])
+
+  await Promise.all(
+    entries
+      .filter((entry) => entry.endsWith(".json"))
+      .map(async (entry) => {
+        const id = entry.slice(0, -".json".length)
+        const upload = isUploadId(id) ? await readUpload(id).catch(() => null) : null
+        if (upload && isExpired(upload)) {
+          await removeUpload(id)
+        }
+      }),
+  )
+}
+
+// Parses the tus Upload-Metadata header: comma separated "key base64value" pairs
+export function parseUploadMetadata(header: string | null): Record<string, string> {
+  const metadata: Record<string, string> = {}
+
+  for (const pair of (header ?? "").split(",")) {
+    const [key, value] = pair.trim().split(" ")
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, "base64").toString("utf8") : ""
+    }
+  }
+
+  return metadata
+}
+
+// Creates an upload for an Upload-Metadata grant from startProofUpload. The server action validated
+// the file; only the length, which the grant doesn't cover, is checked again here.
+export async function createResumableUpload(length: number, metadata: Record<string, string>) {
+  const storage = getStorageProvider()
+  if (!isLocalStorageProvider(storage)) {
+    throw new ResumableUploadError("Uploads go straight to the storage backend", 404)
+  }
+
+  const grant = storage.verifyResumableUpload(metadata)
+  if (!grant) {
+    throw new ResumableUploadError("Invalid or expired upload grant", 403)
+  }
+
+  if (!Number.isSafeInteger(length) || length <= 0) {
+    throw new ResumableUploadError("Upload-Length must be a positive integer", 400)
+  }
+
+  if (length > getMaxFileSize(grant.contentType)) {
+    throw new ResumableUploadError("File is too large", 413)
+  }
+
+  await mkdir(uploadDir(), { recursive: true })
+  await removeExpiredUploads()
+
+  const now = Date.now()
+  const upload: ResumableUpload = {
+    id: randomUUID(),
+    length,
+    offset: 0,
+    path: grant.path,
+    fileType: grant.contentType,
+    cacheControl: grant.cacheControl,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + UPLOAD_TTL_MS).toISOString(),
+  }
+
+  await writeFile(dataPath(upload.id), new Uint8Array())
+  await saveUpload(upload)
+
+  return upload
+}
+
+export async function getResumableUpload(id: string): Promise<ResumableUpload | null> {
+  if (!isUploadId(id)) return null
+
+  // Finished uploads stay readable until cleaned up, so a late HEAD still finds the stored file
+  const upload = await readUpload(id)
+  if (upload && !upload.isStored && isExpired(upload)) {
+    throw new ResumableUploadError("Upload has expired", 410)
+  }
+
+  return upload
+}
+
+async function readHead(id: string) {
+  const file = await open(dataPath(id))
+  try {
+    const { buffer, bytesRead } = await file.read(new Uint8Array(SNIFF_LENGTH), 0, SNIFF_LENGTH, 0)
+    return buffer.subarray(0, bytesRead)
+  } finally {
+    await file.close()
+  }
+}
+
+// Hands the assembled file to the storage provider and marks the upload stored. The file is
+// stored with the type its contents show, never the claimed one, since the storage route serves
+// files with their stored type.
+async function finalizeUpload(upload: ResumableUpload) {
+  const fileType = sniffFileType(await readHead(upload.id))
+  if (!fileType || !matchesClaimedType(fileType, upload.fileType)) {
+    await removeUpload(upload.id)
+    throw new ResumableUploadError("File contents do not match its type", 415)
+  }
+
+  // A file-backed Blob lets providers stream the data instead of reading it into memory
+  const file = await openAsBlob(dataPath(upload.id), { type: fileType })
+  await getStorageProvider().upload(upload.path, file, { contentType: fileType, cacheControl: upload.cacheControl })
+
+  const finalized: ResumableUpload = { ...upload, offset: upload.length, isStored: true }
+  await saveUpload(finalized)
+  await rm(dataPath(upload.id), { force: true })
+
+  return finalized
+}
+
+// Appends a chunk at the given offset. Whatever part of the chunk arrives is kept, so a dropped
+// connection only loses the bytes that never made it.
+export async function appendToResumableUpload(
+  id: string,
+  offset: number,
+  body: ReadableStream<Uint8Array> | null,
+): Promise<ResumableUpload> {
+  if (activeWrites.has(id)) {
+    throw new ResumableUploadError("Another request is already writing to this upload", 409)
+  }
+
+  activeWrites.add(id)
+
+  try {
+    let upload = await getResumableUpload(id)
+    if (!upload) {
+      throw new ResumableUploadError("Upload not found", 404)
+    }
+
+    if (offset !== upload.offset) {
+      throw new ResumableUploadError(`Upload-Offset ${offset} does not match current offset ${upload.offset}`, 409)
+    }
+
+    if (upload.offset < upload.length && body) {
+      try {
+        await pipeline(Readable.fromWeb(body as WebReadableStream), createWriteStream(dataPath(id), { flags: "a" }))
+      } catch (error) {
+        console.error("Resumable upload interrupted:", error)
+      }
+
+      const { size } = await stat(dataPath(id))
+      if (size > upload.length) {
+        await removeUpload(id)
+        throw new ResumableUploadError("Upload exceeds the declared Upload-Length", 413)
+      }
+
+      if (size < upload.length) {
+        upload = { ...upload, offset: size }
+        await saveUpload(upload)
+      } else {
+        // The last bytes only count once the file is stored. If that fails they're dropped again, so
+        // the client's retry sends the final chunk anew.
+        try {
+          upload = await finalizeUpload(upload)
+        } catch (error) {
+          await truncate(dataPath(id), upload.offset).catch(() => undefined)
+          throw error
+        }
+      }
+    }
+
+    return upload
+  } finally {
+    activeWrites.delete(id)
+  }
+}
+
+export async function terminateResumableUpload(id: string) {
+  const upload = await getResumableUpload(id)
+  if (!upload) {
+    throw new ResumableUploadError("Upload not found", 404)
+  }
+
+  await removeUpload(id)
+}
+
+// Headers describing an upload's progress
+export function getResumableUploadHeaders(upload: ResumableUpload): Record<string, string> {
+  return {
+    "Tus-Resumable": TUS_VERSION,
+    "Upload-Offset": String(upload.offset),
+    "Upload-Length": String(upload.length),
+    "Upload-Expires": new Date(upload.expiresAt).toUTCString(),
+    "Cache-Control": "no-store",
+  }
+}
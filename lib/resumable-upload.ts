@@ -0,0 +1,255 @@
+// Browser side of the resumable upload protocol (tus 1.0). The startProofUpload action picks where a
+// file goes, and the file is then sent there in chunks: straight to Supabase Storage, or to
+// /api/uploads with the local storage provider. After a failure the client asks how far the upload got
+// and carries on from there. Uploads are remembered in localStorage so a reload can resume them too.
+
+import { startProofUpload } from "./supabase-actions"
+import type { ResumableUploadTarget } from "./storage"
+import type { UploadReceipt } from "./upload-receipts"
+
+const TUS_VERSION = "1.0.0"
+const STORAGE_KEY_PREFIX = "resumable-upload:"
+
+const DEFAULT_RETRY_DELAYS = [0, 1000, 3000, 5000, 10000]
+
+export interface ResumableUploadOptions {
+  // Wait before each retry in ms; the upload fails once these run out
+  retryDelays?: number[]
+  onProgress?: (bytesUploaded: number, bytesTotal: number) => void
+  // Uploads the file as the thumbnail or poster frame of this already uploaded file
+  thumbnailOf?: UploadReceipt
+}
+
+// Where the finished file is stored, with the receipt that lets this client act on it before it
+// belongs to a proof. URLs for the file are signed on demand.
+export type ResumableUploadResult = UploadReceipt
+
+export interface ResumableUploader {
+  start(): Promise<ResumableUploadResult>
+  // Stops sending; the upload can be resumed later with start()
+  abort(): void
+  // Stops sending and discards everything uploaded so far
+  terminate(): Promise<void>
+}
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message)
+    this.name = "UploadError"
+  }
+}
+
+// An upload that was created and can be resumed
+interface StartedUpload {
+  url: string
+  target: ResumableUploadTarget
+  receipt: UploadReceipt
+}
+
+// Offset mismatches, locks, server errors and dropped connections are worth another try
+const isRetryable = (status: number) => status === 0 || status === 409 || status === 423 || status >= 500
+
+// The same file picked again after a reload maps to the same stored upload
+const fingerprint = (file: File) => STORAGE_KEY_PREFIX + [file.name, file.size, file.type, file.lastModified].join(":")
+
+function readStoredUpload(key: string): StartedUpload | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(key) ?? "null")
+    return stored?.url && stored.target && stored.receipt ? stored : null
+  } catch {
+    return null
+  }
+}
+
+function writeStoredUpload(key: string, upload: StartedUpload | null) {
+  try {
+    if (upload) {
+      localStorage.setItem(key, JSON.stringify(upload))
+    } else {
+      localStorage.removeItem(key)
+    }
+  } catch {
+    // Storage may be unavailable (private mode, quota); resuming across reloads just won't work
+  }
+}
+
+const encodeMetadata = (value: string) => btoa(String.fromCharCode(...new TextEncoder().encode(value)))
+
+async function errorFromResponse(response: Response, fallback: string) {
+  const body = await response.json().catch(() => null)
+  return new UploadError(body?.error ?? body?.message ?? fallback, response.status)
+}
+
+export function createResumableUploader(file: File, options: ResumableUploadOptions = {}): ResumableUploader {
+  const retryDelays = options.retryDelays ?? DEFAULT_RETRY_DELAYS
+  const storageKey = fingerprint(file)
+
+  let started = readStoredUpload(storageKey)
+  let controller: AbortController | null = null
+  let request: XMLHttpRequest | null = null
+  let confirmedOffset = 0
+
+  const reportProgress = (bytesUploaded: number) => options.onProgress?.(bytesUploaded, file.size)
+
+  const create = async (signal: AbortSignal): Promise<StartedUpload> => {
+    const result = await startProofUpload({
+      fileName: file.name,
+      fileType: file.type,
+      fileSize: file.size,
+      thumbnailOf: options.thumbnailOf,
+    })
+    if (!result.receipt || !result.target) {
+      throw new UploadError(result.error ?? "Failed to start upload", 400)
+    }
+
+    const { target, receipt } = result
+    const response = await fetch(target.endpoint, {
+      method: "POST",
+      headers: {
+        ...target.headers,
+        "Tus-Resumable": TUS_VERSION,
+        "Upload-Length": String(file.size),
+        "Upload-Metadata": Object.entries(target.metadata)
+          .map(([key, value]) => `${key} ${encodeMetadata(value)}`)
+          .join(","),
+      },
+      signal,
+    })
+
+    const location = response.headers.get("Location")
+    if (!response.ok || !location) {
+      throw await errorFromResponse(response, "Failed to start upload")
+    }
+
+    // Backends may answer with a path relative to their endpoint
+    const url = new URL(location, new URL(target.endpoint, window.location.href)).toString()
+    return { url, target, receipt }
+  }
+
+  // Returns the backend's offset for the started upload, or null if it has to start over
+  const resume = async (upload: StartedUpload, signal: AbortSignal) => {
+    const response = await fetch(upload.url, {
+      method: "HEAD",
+      headers: { ...upload.target.headers, "Tus-Resumable": TUS_VERSION },
+      cache: "no-store",
+      signal,
+    })
+
+    if (response.status === 404 || response.status === 410) {
+      return null
+    }
+
+    if (!response.ok) {
+      throw new UploadError("Failed to resume upload", response.status)
+    }
+
+    return Number(response.headers.get("Upload-Offset"))
+  }
+
+  // Chunks go through XHR since fetch can't report upload progress
+  const sendChunk = (upload: StartedUpload, offset: number) =>
+    new Promise<number>((resolve, reject) => {
+      const xhr = new XMLHttpRequest()
+      request = xhr
+
+      xhr.open("PATCH", upload.url)
+      for (const [name, value] of Object.entries(upload.target.headers)) {
+        xhr.setRequestHeader(name, value)
+      }
+      xhr.setRequestHeader("Tus-Resumable", TUS_VERSION)
+      xhr.setRequestHeader("Upload-Offset", String(offset))
+      xhr.setRequestHeader("Content-Type", "application/offset+octet-stream")
+
+      xhr.upload.onprogress = (event) => reportProgress(offset + event.loaded)
+      xhr.onload = () => {
+        if (xhr.status === 204) {
+          resolve(Number(xhr.getResponseHeader("Upload-Offset")))
+          return
+        }
+
+        let message = "Failed to upload file"
+        try {
+          const body = JSON.parse(xhr.responseText)
+          message = body.error ?? body.message ?? message
+        } catch {
+          // Not a JSON error body
+        }
+        reject(new UploadError(message, xhr.status))
+      }
+      xhr.onerror = () => reject(new UploadError("Network error while uploading", 0))
+      xhr.onabort = () => reject(new DOMException("Upload aborted", "AbortError"))
+
+      xhr.send(file.slice(offset, Math.min(offset + upload.target.chunkSize, file.size)))
+    })
+
+  const upload = async (signal: AbortSignal) => {
+    let offset = started ? await resume(started, signal) : null
+    if (!started || offset === null) {
+      started = await create(signal)
+      writeStoredUpload(storageKey, started)
+      offset = 0
+    }
+
+    reportProgress(offset)
+
+    // The backend stores the file once the last byte is in
+    while (offset < file.size) {
+      if (signal.aborted) throw new DOMException("Upload aborted", "AbortError")
+      offset = await sendChunk(started, offset)
+      confirmedOffset = offset
+      reportProgress(offset)
+    }
+
+    return started.receipt
+  }
+
+  const abort = () => {
+    controller?.abort()
+    request?.abort()
+  }
+
+  return {
+    async start() {
+      controller = new AbortController()
+      const { signal } = controller
+
+      for (let attempt = 0, lastOffset = confirmedOffset; ; attempt++) {
+        try {
+          const result = await upload(signal)
+          writeStoredUpload(storageKey, null)
+          return result
+        } catch (error) {
+          const status = error instanceof UploadError ? error.status : 0
+          if (signal.aborted || (error as Error).name === "AbortError") throw error
+          // Retries only run out when the upload stops making progress
+          if (confirmedOffset > lastOffset) {
+            attempt = 0
+            lastOffset = confirmedOffset
+          }
+          if (!isRetryable(status) || attempt >= retryDelays.length) throw error
+
+          // Retrying starts with a HEAD request, so the offset is always back in sync first
+          await new Promise((resolve) => setTimeout(resolve, retryDelays[attempt]))
+        }
+      }
+    },
+
+    abort,
+
+    async terminate() {
+      abort()
+
+      if (started) {
+        const { url, target } = started
+        started = null
+        writeStoredUpload(storageKey, null)
+        await fetch(url, { method: "DELETE", headers: { ...target.headers, "Tus-Resumable": TUS_VERSION } }).catch(
+          () => undefined,
+        )
+      }
+    },
+  }
+}
@@ -0,0 +1,44 @@
+import { createClient, type User } from "@supabase/supabase-js"
+
+// Recorded as the reviewer when the app runs on the in-memory repository without Supabase
+export const LOCAL_REVIEWER_ID = "local-reviewer"
+
+const parseEmailList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean)
+
+// app_metadata can only be written with the service role key, so users can't grant themselves the
+// role the way they could with user_metadata
+function isReviewer(user: User) {
+  if (user.app_metadata?.role === "reviewer") return true
+
+  const email = user.email?.toLowerCase()
+  return email !== undefined && parseEmailList(process.env.PROOF_REVIEWER_EMAILS).includes(email)
+}
+
+// Works out who is reviewing from their Supabase Auth session, so the reviewer recorded with a status
+// change is never a name the browser picked. Resolves to undefined for a missing, expired or forged
+// access token, and for users who aren't reviewers.
+//
+// Without Supabase there are no accounts to check. On the in-memory repository outside production,
+// which is only meant for trying the app locally, everyone reviews as LOCAL_REVIEWER_ID; anywhere else
+// status changes stay locked.
+export async function getReviewerId(accessToken: string | undefined) {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!url || !serviceKey) {
+    const isLocal = process.env.DATA_REPOSITORY === "memory" && process.env.NODE_ENV !== "production"
+    return isLocal ? LOCAL_REVIEWER_ID : undefined
+  }
+
+  if (!accessToken) return undefined
+
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } })
+  const { data, error } = await supabase.auth.getUser(accessToken)
+  if (error || !data.user || !isReviewer(data.user)) return undefined
+
+  // The email is what the status history shows; users without one are recorded by their id
+  return data.user.email ?? data.user.id
+}
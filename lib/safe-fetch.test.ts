@@ -0,0 +1,135 @@
+import http from "node:http"
+import type { AddressInfo } from "node:net"
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest"
+import { BlockedUrlError, MAX_REDIRECTS, safeFetch } from "./safe-fetch"
+
+// Host names the tests resolve themselves, to one or more addresses; anything else goes to the real
+// resolver
+const { resolved } = vi.hoisted(() => ({
+  resolved: new Map([
+    ["public.test", "127.0.0.1"],
+    ["internal.test", "10.0.0.1"],
+    ["mixed.test", "127.0.0.1,10.0.0.1"],
+  ]),
+}))
+
+vi.mock("node:dns", async (importOriginal) => {
+  const dns = await importOriginal<typeof import("node:dns")>()
+  const lookup = (hostname: string, options: object, callback: (...args: unknown[]) => void) => {
+    const addresses = resolved.get(hostname)
+    if (!addresses) return dns.lookup(hostname, options, callback)
+    callback(
+      null,
+      addresses.split(",").map((address) => ({ address, family: 4 })),
+    )
+  }
+  return { ...dns, default: { ...dns, lookup }, lookup }
+})
+
+// The stub server listens on loopback, which stands in for a public address here. URLs naming
+// 127.0.0.1 directly are still refused, since checkUrlPolicy keeps using the real check.
+vi.mock("./url-policy", async (importOriginal) => {
+  const policy = await importOriginal<typeof import("./url-policy")>()
+  return {
+    ...policy,
+    isReservedAddress: (address: string) => address !== "127.0.0.1" && policy.isReservedAddress(address),
+  }
+})
+
+describe("safeFetch", () => {
+  let server: http.Server
+  let origin: string
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      const port = (server.address() as AddressInfo).port
+
+      switch (request.url) {
+        case "/page":
+          response.writeHead(200, { "Content-Type": "text/plain" }).end(request.headers["accept-encoding"])
+          return
+        case "/to-page":
+          response.writeHead(302, { Location: "/page" }).end()
+          return
+        case "/to-loopback":
+          response.writeHead(302, { Location: `http://127.0.0.1:${port}/page` }).end()
+          return
+        case "/to-internal":
+          response.writeHead(302, { Location: `http://internal.test:${port}/page` }).end()
+          return
+        case "/loop":
+          response.writeHead(302, { Location: "/loop" }).end()
+          return
+        case "/empty":
+          response.writeHead(204).end()
+          return
+        default:
+          response.writeHead(404).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    origin = `http://public.test:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  it("fetches public addresses and asks for an uncompressed body", async () => {
+    const response = await safeFetch(`${origin}/page`, { headers: { "Accept-Encoding": "gzip" } })
+
+    expect(response.status).toBe(200)
+    expect(await response.text()).toBe("identity")
+  })
+
+  it("follows redirects and reports the final URL", async () => {
+    const response = await safeFetch(`${origin}/to-page`)
+
+    expect(response.url).toBe(`${origin}/page`)
+    expect(response.status).toBe(200)
+  })
+
+  it("hands back the redirect itself when asked to", async () => {
+    const response = await safeFetch(`${origin}/to-page`, { redirect: "manual" })
+
+    expect(response.status).toBe(302)
+    expect(response.headers.get("location")).toBe("/page")
+  })
+
+  it("refuses to follow redirects when asked not to", async () => {
+    await expect(safeFetch(`${origin}/to-page`, { redirect: "error" })).rejects.toThrow("Redirects are not allowed")
+    expect((await safeFetch(`${origin}/page`, { redirect: "error" })).status).toBe(200)
+  })
+
+  it("refuses links the URL policy rejects before connecting", async () => {
+    await expect(safeFetch("http://localhost/")).rejects.toThrow(BlockedUrlError)
+    await expect(safeFetch("file:///etc/passwd")).rejects.toThrow(BlockedUrlError)
+  })
+
+  it("refuses redirects to private addresses", async () => {
+    await expect(safeFetch(`${origin}/to-loopback`)).rejects.toThrow(/private network/)
+  })
+
+  it("refuses names that resolve to private addresses, including after a redirect", async () => {
+    const port = (server.address() as AddressInfo).port
+
+    await expect(safeFetch(`http://internal.test:${port}/page`)).rejects.toThrow(BlockedUrlError)
+    await expect(safeFetch(`http://mixed.test:${port}/page`)).rejects.toThrow(/resolves to a private network/)
+    await expect(safeFetch(`${origin}/to-internal`)).rejects.toThrow(BlockedUrlError)
+  })
+
+  it(`gives up after ${MAX_REDIRECTS} redirects`, async () => {
+    await expect(safeFetch(`${origin}/loop`)).rejects.toThrow(/Too many redirects/)
+  })
+
+  it("returns no body for statuses that can't have one", async () => {
+    const response = await safeFetch(`${origin}/empty`)
+
+    expect(response.status).toBe(204)
+    expect(response.body).toBeNull()
+  })
+
+  it("refuses requests with a body", async () => {
+    await expect(safeFetch(`${origin}/page`, { method: "POST", body: "data" })).rejects.toThrow(TypeError)
+  })
+})
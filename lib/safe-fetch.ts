@@ -0,0 +1,102 @@
+import { lookup, type LookupAddress, type LookupAllOptions, type LookupOneOptions } from "node:dns"
+import http from "node:http"
+import https from "node:https"
+import { Readable } from "node:stream"
+import { checkUrlPolicy, isReservedAddress } from "./url-policy"
+
+// A fetch for URLs that come from users. Every hop of a redirect chain is checked against the URL
+// policy, and connections are only made to addresses that resolve to the public internet, so a
+// proof link can't be used to reach services inside our network.
+
+export const MAX_REDIRECTS = 5
+
+type LookupCallback = (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+
+export class BlockedUrlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "BlockedUrlError"
+  }
+}
+
+// Resolves like dns.lookup but refuses names with any private address. Checking the addresses the
+// socket actually connects to closes the gap a separate resolve-then-fetch would leave open.
+function publicOnlyLookup(hostname: string, options: LookupOneOptions | LookupAllOptions, callback: LookupCallback) {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, [])
+
+    const reserved = addresses.find((address) => isReservedAddress(address.address))
+    if (reserved || addresses.length === 0) {
+      return callback(new BlockedUrlError(`${hostname} resolves to a private network address`), [])
+    }
+
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function request(url: URL, init: RequestInit) {
+  const client = url.protocol === "https:" ? https : http
+  const headers = Object.fromEntries(new Headers(init.headers).entries())
+
+  return new Promise<http.IncomingMessage>((resolve, reject) => {
+    const outgoing = client.request(url, {
+      method: init.method ?? "GET",
+      // Bodies are handed back undecoded, so ask for them uncompressed
+      headers: { ...headers, "accept-encoding": "identity" },
+      lookup: publicOnlyLookup as typeof lookup,
+      signal: init.signal ?? undefined,
+    })
+    outgoing.on("response", resolve)
+    outgoing.on("error", reject)
+    outgoing.end()
+  })
+}
+
+const NULL_BODY_STATUSES = [101, 204, 205, 304]
+
+export const safeFetch = async (input: string | URL, init: RequestInit = {}): Promise<Response> => {
+  if (init.body) {
+    throw new TypeError("safeFetch only supports requests without a body")
+  }
+
+  let url = new URL(input)
+
+  for (let redirects = 0; ; redirects++) {
+    const policyError = checkUrlPolicy(url)
+    if (policyError) {
+      throw new BlockedUrlError(policyError)
+    }
+
+    const incoming = await request(url, init)
+    const status = incoming.statusCode ?? 500
+    const location = incoming.headers.location
+
+    if (status >= 300 && status < 400 && location && init.redirect !== "manual") {
+      incoming.resume()
+      if (init.redirect === "error") {
+        throw new BlockedUrlError("Redirects are not allowed")
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw new BlockedUrlError(`Too many redirects (more than ${MAX_REDIRECTS})`)
+      }
+      url = new URL(location, url)
+      continue
+    }
+
+    const headers = new Headers()
+    for (const [name, value] of Object.entries(incoming.headers)) {
+      for (const item of Array.isArray(value) ? value : value === undefined ? [] : [value]) {
+        headers.append(name, item)
+      }
+    }
+
+    const body = NULL_BODY_STATUSES.includes(status) ? null : (Readable.toWeb(incoming) as ReadableStream<Uint8Array>)
+    if (!body) incoming.resume()
+
+    const response = new Response(body, { status, statusText: incoming.statusMessage, headers })
+    // Response doesn't take a URL, but callers resolve relative links against the final one
+    Object.defineProperty(response, "url", { value: url.toString() })
+    return response
+  }
+}
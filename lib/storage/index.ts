@@ -0,0 +1,97 @@
+import { randomBytes, randomUUID } from "node:crypto"
+import { createLocalStorageProvider, type LocalStorageProvider } from "./local-storage"
+import { createSupabaseStorageProvider } from "./supabase-storage"
+import type { StorageProvider } from "./types"
+
+export type {
+  ByteRange,
+  ResumableUploadTarget,
+  StorageBody,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadOptions,
+} from "./types"
+export type { LocalStorageProvider } from "./local-storage"
+
+// Route that serves files for the local provider, see app/api/storage/[...path]/route.ts
+export const LOCAL_STORAGE_ROUTE = "/api/storage"
+// Route that receives resumable uploads for the local provider, see app/api/uploads/route.ts
+export const LOCAL_UPLOAD_ROUTE = "/api/uploads"
+
+// How long a signed file URL stays valid; viewers request a fresh one before it runs out
+export const SIGNED_URL_TTL_SECONDS = 15 * 60
+
+let provider: StorageProvider | undefined
+let signingSecret: string | undefined
+
+// Key for the URLs, grants and receipts the server signs. Without a configured secret, they only stay
+// valid until the server restarts, and only on the instance that signed them.
+export function getSigningSecret() {
+  signingSecret ??= process.env.STORAGE_SIGNING_SECRET ?? randomBytes(32).toString("hex")
+  return signingSecret
+}
+
+// Picks the backend from STORAGE_PROVIDER ("supabase" by default, or "local")
+export function getStorageProvider(): StorageProvider {
+  if (provider) return provider
+
+  const kind = process.env.STORAGE_PROVIDER ?? "supabase"
+
+  switch (kind) {
+    case "local":
+      provider = createLocalStorageProvider({
+        rootDir: process.env.LOCAL_STORAGE_DIR ?? ".storage",
+        baseUrl: LOCAL_STORAGE_ROUTE,
+        uploadUrl: LOCAL_UPLOAD_ROUTE,
+        signingSecret: getSigningSecret(),
+      })
+      break
+    case "supabase": {
+      const url = process.env.NEXT_PUBLIC_SUPABASE_URL
+      const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+      if (!url || !serviceKey) {
+        throw new Error("NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for Supabase storage")
+      }
+
+      provider = createSupabaseStorageProvider({
+        url,
+        serviceKey,
+        bucket: process.env.SUPABASE_STORAGE_BUCKET ?? "proof-files",
+      })
+      break
+    }
+    default:
+      throw new Error(`Unknown STORAGE_PROVIDER "${kind}"`)
+  }
+
+  return provider
+}
+
+export function isLocalStorageProvider(storage: StorageProvider): storage is LocalStorageProvider {
+  return storage.name === "local"
+}
+
+// Proof files are the only objects browsers may ask for, see getSignedFileUrl
+export function isProofFilePath(filePath: string) {
+  return filePath.startsWith("proofs/") && !filePath.split("/").includes("..")
+}
+
+// Unique object path for an uploaded proof file, keeping the original extension. The random part
+// means paths can't be guessed, on top of getSignedFileUrl only signing paths a proof uses.
+export function createProofFilePath(fileName: string) {
+  const fileExt = fileName.match(/\.([a-z0-9]+)$/i)?.[1] ?? "bin"
+  return `proofs/${randomUUID()}.${fileExt}`
+}
+
+const THUMBNAIL_EXTENSIONS: Record<string, string> = { "image/webp": "webp", "image/jpeg": "jpg" }
+
+export const isThumbnailType = (type: string) => type in THUMBNAIL_EXTENSIONS
+
+// Thumbnails and poster frames sit next to their file, e.g. proofs/abc.mp4 -> proofs/abc.thumb.webp
+export function getThumbnailPath(filePath: string, thumbnailType: string) {
+  return `${filePath.replace(/\.[^./]*$/, "")}.thumb.${THUMBNAIL_EXTENSIONS[thumbnailType]}`
+}
+
+export function isThumbnailPathFor(thumbnailPath: string, filePath: string) {
+  return Object.keys(THUMBNAIL_EXTENSIONS).some((type) => getThumbnailPath(filePath, type) === thumbnailPath)
+}
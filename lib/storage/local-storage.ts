@@ -0,0 +1,216 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { createReadStream, createWriteStream } from "node:fs"
+import { mkdir, readdir, readFile, rm, stat, writeFile } from "node:fs/promises"
+import path from "node:path"
+import { Readable } from "node:stream"
+import { pipeline } from "node:stream/promises"
+import type { ReadableStream as WebReadableStream } from "node:stream/web"
+import type {
+  ByteRange,
+  ResumableUploadTarget,
+  StorageBody,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadOptions,
+} from "./types"
+
+interface LocalStorageOptions {
+  rootDir: string
+  // Public URL prefix of the route that serves files from rootDir
+  baseUrl: string
+  // Route that receives resumable uploads, see app/api/uploads/route.ts
+  uploadUrl: string
+  // Key for the HMAC that signs file URLs and upload grants; the routes check it before serving a file
+  // or accepting one
+  signingSecret: string
+}
+
+export interface LocalStorageProvider extends StorageProvider {
+  // Checks the expires/signature query parameters of a URL from getSignedUrl
+  verifySignedUrl(path: string, searchParams: URLSearchParams): boolean
+  // Checks the Upload-Metadata of an upload from createResumableUpload, returning what it was granted
+  verifyResumableUpload(metadata: Record<string, string>): (UploadOptions & { path: string }) | null
+}
+
+// Kept under the 4.5MB request body limit of serverless hosts such as Vercel
+const RESUMABLE_CHUNK_SIZE = 4 * 1024 * 1024
+
+// Unused upload grants run out after this long
+const UPLOAD_GRANT_TTL_SECONDS = 60 * 60
+
+interface ObjectMetadata {
+  contentType: string
+}
+
+// Content types live in a sidecar file since the filesystem has nowhere else to keep them
+const LOCAL_METADATA_SUFFIX = ".meta.json"
+
+export function createLocalStorageProvider({
+  rootDir,
+  baseUrl,
+  uploadUrl,
+  signingSecret,
+}: LocalStorageOptions): LocalStorageProvider {
+  const root = path.resolve(rootDir)
+
+  const sign = (objectPath: string, expires: number) =>
+    createHmac("sha256", signingSecret).update(`${objectPath}\n${expires}`).digest("base64url")
+
+  // Prefixed so a file URL's signature can never pass for an upload grant
+  const signUpload = (objectPath: string, contentType: string, expires: number) =>
+    createHmac("sha256", signingSecret).update(`upload\n${objectPath}\n${contentType}\n${expires}`).digest("base64url")
+
+  const isValidSignature = (signature: string, expected: string) => {
+    const actual = Buffer.from(signature)
+    const wanted = Buffer.from(expected)
+    return actual.length === wanted.length && timingSafeEqual(actual, wanted)
+  }
+
+  // Maps a storage path to a file under root, refusing anything that escapes it
+  const resolvePath = (objectPath: string) => {
+    const filePath = path.resolve(root, objectPath)
+
+    if (!filePath.startsWith(root + path.sep) || objectPath.endsWith(LOCAL_METADATA_SUFFIX)) {
+      throw new Error(`Invalid storage path: ${objectPath}`)
+    }
+
+    return filePath
+  }
+
+  const head = async (objectPath: string): Promise<StoredObjectInfo | null> => {
+    const filePath = resolvePath(objectPath)
+
+    try {
+      const [stats, metadata] = await Promise.all([
+        stat(filePath),
+        readFile(filePath + LOCAL_METADATA_SUFFIX, "utf8")
+          .then((json) => JSON.parse(json) as ObjectMetadata)
+          .catch(() => null),
+      ])
+
+      if (!stats.isFile()) return null
+
+      return {
+        path: objectPath,
+        size: stats.size,
+        contentType: metadata?.contentType ?? "application/octet-stream",
+        lastModified: stats.mtime.toISOString(),
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null
+      throw error
+    }
+  }
+
+  return {
+    name: "local",
+
+    async upload(objectPath: string, body: StorageBody, options: UploadOptions) {
+      const filePath = resolvePath(objectPath)
+      await mkdir(path.dirname(filePath), { recursive: true })
+
+      // Never overwrite, matching the Supabase provider's upsert: false
+      if (await head(objectPath)) {
+        throw new Error("The resource already exists")
+      }
+
+      // Blobs may be file-backed and large, so stream them rather than reading them into memory
+      if (body instanceof ReadableStream || body instanceof Blob) {
+        const stream = body instanceof Blob ? body.stream() : body
+        await pipeline(Readable.fromWeb(stream as WebReadableStream), createWriteStream(filePath, { flags: "wx" }))
+      } else {
+        await writeFile(filePath, body, { flag: "wx" })
+      }
+
+      const metadata: ObjectMetadata = { contentType: options.contentType }
+      await writeFile(filePath + LOCAL_METADATA_SUFFIX, JSON.stringify(metadata))
+
+      const stats = await stat(filePath)
+      return { path: objectPath, size: stats.size, contentType: options.contentType }
+    },
+
+    async getSignedUrl(objectPath: string, expiresInSeconds: number) {
+      resolvePath(objectPath)
+
+      const expires = Math.floor(Date.now() / 1000) + expiresInSeconds
+      const query = new URLSearchParams({ expires: String(expires), signature: sign(objectPath, expires) })
+      return `${baseUrl}/${objectPath.split("/").map(encodeURIComponent).join("/")}?${query}`
+    },
+
+    verifySignedUrl(objectPath: string, searchParams: URLSearchParams) {
+      const expires = Number(searchParams.get("expires"))
+      if (!Number.isSafeInteger(expires) || expires < Date.now() / 1000) return false
+
+      return isValidSignature(searchParams.get("signature") ?? "", sign(objectPath, expires))
+    },
+
+    async createResumableUpload(objectPath: string, options: UploadOptions): Promise<ResumableUploadTarget> {
+      resolvePath(objectPath)
+
+      const expires = Math.floor(Date.now() / 1000) + UPLOAD_GRANT_TTL_SECONDS
+      return {
+        endpoint: uploadUrl,
+        headers: {},
+        metadata: {
+          objectname: objectPath,
+          contenttype: options.contentType,
+          cachecontrol: options.cacheControl ?? "3600",
+          expires: String(expires),
+          signature: signUpload(objectPath, options.contentType, expires),
+        },
+        chunkSize: RESUMABLE_CHUNK_SIZE,
+      }
+    },
+
+    verifyResumableUpload(metadata: Record<string, string>) {
+      const { objectname: objectPath, contenttype: contentType, cachecontrol: cacheControl } = metadata
+      const expires = Number(metadata.expires)
+      if (!objectPath || !contentType || !Number.isSafeInteger(expires) || expires < Date.now() / 1000) return null
+
+      return isValidSignature(metadata.signature ?? "", signUpload(objectPath, contentType, expires))
+        ? { path: objectPath, contentType, cacheControl }
+        : null
+    },
+
+    async delete(objectPath: string) {
+      const filePath = resolvePath(objectPath)
+      await Promise.all([rm(filePath, { force: true }), rm(filePath + LOCAL_METADATA_SUFFIX, { force: true })])
+    },
+
+    head,
+
+    async stream(objectPath: string, range?: ByteRange) {
+      const filePath = resolvePath(objectPath)
+
+      // Fail with a clear error up front instead of from inside the stream
+      await stat(filePath)
+
+      const nodeStream = createReadStream(filePath, range ? { start: range.start, end: range.end } : undefined)
+      return Readable.toWeb(nodeStream) as ReadableStream<Uint8Array>
+    },
+
+    async list(prefix: string) {
+      const dir = path.resolve(root, prefix)
+      if (dir !== root && !dir.startsWith(root + path.sep)) {
+        throw new Error(`Invalid storage prefix: ${prefix}`)
+      }
+
+      let entries: string[]
+      try {
+        entries = await readdir(dir, { recursive: true })
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return []
+        throw error
+      }
+
+      const objects = await Promise.all(
+        entries
+          .filter((entry) => !entry.endsWith(LOCAL_METADATA_SUFFIX))
+          .map((entry) => head(path.relative(root, path.join(dir, entry)).split(path.sep).join("/"))),
+      )
+
+      // Directories show up in the listing too, but head() only reports files
+      return objects.filter((object): object is StoredObjectInfo => object !== null)
+    },
+  }
+}
@@ -0,0 +1,167 @@
+import { createClient } from "@supabase/supabase-js"
+import type {
+  ByteRange,
+  ResumableUploadTarget,
+  StorageBody,
+  StorageProvider,
+  StoredObjectInfo,
+  UploadOptions,
+} from "./types"
+
+// Page size for list(), the maximum the storage API returns at once
+const LIST_PAGE_SIZE = 1000
+
+// Supabase's resumable upload endpoint only accepts chunks of exactly this size, bar the last
+const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024
+
+interface SupabaseStorageOptions {
+  url: string
+  serviceKey: string
+  bucket: string
+}
+
+export function createSupabaseStorageProvider({ url, serviceKey, bucket }: SupabaseStorageOptions): StorageProvider {
+  const supabase = createClient(url, serviceKey)
+  const storage = () => supabase.storage.from(bucket)
+
+  const head = async (path: string): Promise<StoredObjectInfo | null> => {
+    const { data, error } = await storage().info(path)
+
+    if (error) {
+      // Missing objects surface as generic API errors, so confirm before treating it as a failure
+      const { data: exists } = await storage().exists(path)
+      if (!exists) return null
+      throw new Error(error.message)
+    }
+
+    return {
+      path,
+      size: data.size ?? 0,
+      contentType: data.contentType ?? "application/octet-stream",
+      lastModified: data.lastModified ?? data.updatedAt,
+    }
+  }
+
+  return {
+    name: "supabase",
+
+    async upload(path: string, body: StorageBody, options: UploadOptions) {
+      // Node's fetch can't send a ReadableStream without extra options, so buffer it first
+      const fileBody = body instanceof ReadableStream ? await new Response(body).blob() : body
+
+      const { error } = await storage().upload(path, fileBody, {
+        contentType: options.contentType,
+        cacheControl: options.cacheControl ?? "3600",
+        upsert: false,
+      })
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const size = fileBody instanceof Blob ? fileBody.size : fileBody.byteLength
+      return { path, size, contentType: options.contentType }
+    },
+
+    // Browsers upload to the storage API directly with a signed upload token, which is good for this
+    // one path and can't overwrite anything
+    async createResumableUpload(path: string, options: UploadOptions): Promise<ResumableUploadTarget> {
+      const { data, error } = await storage().createSignedUploadUrl(path)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return {
+        endpoint: `${url}/storage/v1/upload/resumable/sign`,
+        headers: { "x-signature": data.token },
+        metadata: {
+          bucketName: bucket,
+          objectName: path,
+          contentType: options.contentType,
+          cacheControl: options.cacheControl ?? "3600",
+        },
+        chunkSize: RESUMABLE_CHUNK_SIZE,
+      }
+    },
+
+    async getSignedUrl(path: string, expiresInSeconds: number) {
+      const { data, error } = await storage().createSignedUrl(path, expiresInSeconds)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      return data.signedUrl
+    },
+
+    async delete(path: string) {
+      const { error } = await storage().remove([path])
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    },
+
+    head,
+
+    async stream(path: string, range?: ByteRange) {
+      // download() buffers the whole object in memory, so read through a signed URL instead
+      const { data, error } = await storage().createSignedUrl(path, 60)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+
+      const response = await fetch(
+        data.signedUrl,
+        range ? { headers: { Range: `bytes=${range.start}-${range.end ?? ""}` } } : undefined,
+      )
+      if (!response.ok || !response.body) {
+        throw new Error(`Failed to read ${path}: ${response.status}`)
+      }
+
+      if (range && response.status !== 206) {
+        // The range was ignored and the whole object came back
+        const blob = await response.blob()
+        return blob.slice(range.start, range.end === undefined ? undefined : range.end + 1).stream()
+      }
+
+      return response.body
+    },
+
+    async list(prefix: string) {
+      const objects: StoredObjectInfo[] = []
+      const folders = [prefix.replace(/\/+$/, "")]
+
+      // The API lists one folder level at a time; folders come back as entries without an id
+      for (let folder = folders.pop(); folder !== undefined; folder = folders.pop()) {
+        for (let offset = 0; ; offset += LIST_PAGE_SIZE) {
+          const { data, error } = await storage().list(folder, { limit: LIST_PAGE_SIZE, offset })
+
+          if (error) {
+            throw new Error(error.message)
+          }
+
+          for (const entry of data) {
+            const path = folder ? `${folder}/${entry.name}` : entry.name
+            if (entry.id === null) {
+              folders.push(path)
+            } else {
+              objects.push({
+                path,
+                size: entry.metadata?.size ?? 0,
+                contentType: entry.metadata?.mimetype ?? "application/octet-stream",
+                lastModified: entry.metadata?.lastModified ?? entry.updated_at,
+              })
+            }
+          }
+
+          if (data.length < LIST_PAGE_SIZE) break
+        }
+      }
+
+      return objects
+    },
+  }
+}
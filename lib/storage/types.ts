@@ -0,0 +1,47 @@
+// Storage backends for proof files. Paths are bucket-relative keys such as "proofs/123-abc.png".
+
+export type StorageBody = Blob | Uint8Array | ReadableStream<Uint8Array>
+
+export interface UploadOptions {
+  contentType: string
+  cacheControl?: string
+}
+
+export interface StoredObjectInfo {
+  path: string
+  size: number
+  contentType: string
+  lastModified?: string
+}
+
+// Inclusive byte range, as in an HTTP Range header
+export interface ByteRange {
+  start: number
+  end?: number
+}
+
+// Where a browser sends a new object itself, over the tus resumable upload protocol
+export interface ResumableUploadTarget {
+  endpoint: string
+  // Sent with every request of the upload, e.g. the credentials it was granted
+  headers: Record<string, string>
+  // Sent in the Upload-Metadata header when the upload is created
+  metadata: Record<string, string>
+  // Size of the chunks the endpoint accepts
+  chunkSize: number
+}
+
+export interface StorageProvider {
+  readonly name: string
+  upload(path: string, body: StorageBody, options: UploadOptions): Promise<StoredObjectInfo>
+  // Grants a browser the upload of one new object, so large files never pass through the app's server
+  createResumableUpload(path: string, options: UploadOptions): Promise<ResumableUploadTarget>
+  // Short-lived URL that grants read access to one object; buckets themselves stay private
+  getSignedUrl(path: string, expiresInSeconds: number): Promise<string>
+  delete(path: string): Promise<void>
+  // Resolves to null when the object does not exist
+  head(path: string): Promise<StoredObjectInfo | null>
+  stream(path: string, range?: ByteRange): Promise<ReadableStream<Uint8Array>>
+  // Every object under the prefix, including those in nested folders
+  list(prefix: string): Promise<StoredObjectInfo[]>
+}
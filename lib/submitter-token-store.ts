@@ -0,0 +1,20 @@
+// Browser side of submitter tokens. The token submitProof hands out is kept in localStorage, so the
+// browser that submitted a proof can resubmit it once a reviewer has asked for changes.
+
+const STORAGE_KEY_PREFIX = "proof-submitter:"
+
+export function readSubmitterToken(proofId: number): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY_PREFIX + proofId)
+  } catch {
+    return null
+  }
+}
+
+export function storeSubmitterToken(proofId: number, token: string) {
+  try {
+    localStorage.setItem(STORAGE_KEY_PREFIX + proofId, token)
+  } catch {
+    // Storage may be unavailable (private mode, quota); the proof just can't be resubmitted from here
+  }
+}
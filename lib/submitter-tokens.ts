@@ -0,0 +1,21 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import type { ProofRecord } from "./repositories"
+import { getSigningSecret } from "./storage"
+
+// Proof that whoever holds it submitted a proof. Submissions are anonymous, so the browser that
+// submitted keeps this token and presents it to resubmit once a reviewer has asked for changes. The
+// creation time is signed too, so a token never carries over to a later proof that reuses the id.
+const sign = (proof: Pick<ProofRecord, "id" | "createdAt">) =>
+  createHmac("sha256", getSigningSecret())
+    .update(`proof-submitter\n${proof.id}\n${proof.createdAt}`)
+    .digest("base64url")
+
+export function createSubmitterToken(proof: Pick<ProofRecord, "id" | "createdAt">) {
+  return sign(proof)
+}
+
+export function verifySubmitterToken(proof: Pick<ProofRecord, "id" | "createdAt">, token: string) {
+  const actual = Buffer.from(String(token))
+  const expected = Buffer.from(sign(proof))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
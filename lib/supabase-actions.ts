@@ -1,49 +1,586 @@
 "use server"
 
-import { createClient } from "@supabase/supabase-js"
+import { after } from "next/server"
+import {
+  INITIAL_PROOF_STATUS,
+  isProofStatus,
+  isSubmitterTransition,
+  SUBMITTER_ID,
+  validateTransition,
+  type ProofStatus,
+} from "./proof-status"
+import type { ProofListQuery } from "./proof-query"
+import { MAX_ATTACHMENTS, MAX_THUMBNAIL_SIZE, validateProofFile, validateProofLink } from "./validation"
+import { createHash } from "node:crypto"
+import { extractImageMetadata, METADATA_SCAN_LENGTH } from "./exif"
+import { matchesClaimedType, SNIFF_LENGTH, sniffFileType } from "./file-sniffing"
+import { normalizeProofLink } from "./proof-links"
+import { unfurlLink, type LinkPreview } from "./link-preview"
+import { archiveLink } from "./link-archive"
+import { getReviewerId } from "./reviewers"
+import { safeFetch } from "./safe-fetch"
+import { deleteUnreferencedFiles } from "./orphaned-files"
+import {
+  createProofFilePath,
+  getStorageProvider,
+  getThumbnailPath,
+  isProofFilePath,
+  isThumbnailPathFor,
+  isThumbnailType,
+  SIGNED_URL_TTL_SECONDS,
+  type ResumableUploadTarget,
+} from "./storage"
+import { createUploadReceipt, verifyUploadReceipt, type UploadReceipt } from "./upload-receipts"
+import { createSubmitterToken, verifySubmitterToken } from "./submitter-tokens"
+import { formatMissingProofTypes, getMissingProofTypes, type Term } from "./terms"
+import {
+  getProofRepository,
+  getTermRepository,
+  type ProofAttachmentInput,
+  type ProofDuplicate,
+  type ProofRecord,
+  type ProofStatusEvent,
+} from "./repositories"
 
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY!
+export interface ProofSubmission {
+  termId: number
+  proofLink?: string
+  // In display order; the first attachment is the proof's primary file
+  attachments?: ProofAttachmentInput[]
+}
 
-// Server-side Supabase client with service role
-const supabaseAdmin = createClient(supabaseUrl, supabaseServiceKey)
+export interface ProofUploadRequest {
+  fileName: string
+  fileType: string
+  fileSize: number
+  // Uploads the file as the thumbnail or poster frame of this already uploaded file
+  thumbnailOf?: UploadReceipt
+}
 
-export interface ProofSubmission {
+export interface ProofReview {
+  // Access token of the reviewer's Supabase session; the reviewer is looked up from it on the server.
+  // Left out when running locally without Supabase, see getReviewerId.
+  accessToken?: string
+  notes?: string
+}
+
+export interface ProofResubmission {
+  // Handed out by submitProof to whoever submitted the proof
+  submitterToken: string
+  notes?: string
+}
+
+// Reads a stored object once, hashing all of it and keeping the first bytes for sniffing and the
+// embedded image metadata
+async function inspectStoredFile(filePath: string) {
+  const stream = await getStorageProvider().stream(filePath)
+  const hash = createHash("sha256")
+  const head = new Uint8Array(METADATA_SCAN_LENGTH)
+  let headLength = 0
+
+  for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+    hash.update(chunk)
+    if (headLength < METADATA_SCAN_LENGTH) {
+      const part = chunk.subarray(0, METADATA_SCAN_LENGTH - headLength)
+      head.set(part, headLength)
+      headLength += part.length
+    }
+  }
+
+  const fileType = sniffFileType(head.subarray(0, Math.min(headLength, SNIFF_LENGTH)))
+  const metadata = fileType?.startsWith("image/")
+    ? extractImageMetadata(head.subarray(0, headLength), fileType)
+    : undefined
+
+  return { fileType, sha256: hash.digest("hex"), metadata }
+}
+
+// A thumbnail is only a preview, so one that doesn't check out is dropped rather than failing the proof
+async function verifyThumbnail(thumbnailPath: string, filePath: string) {
+  if (!isThumbnailPathFor(thumbnailPath, filePath)) return false
+
+  const info = await getStorageProvider().head(thumbnailPath)
+  if (!info || info.size > MAX_THUMBNAIL_SIZE) return false
+
+  const { fileType } = await inspectStoredFile(thumbnailPath)
+  return fileType !== undefined && isThumbnailType(fileType)
+}
+
+// Checks a stored attachment against what the browser claimed, returning it with the type, size,
+// hash and metadata taken from the stored object itself
+async function verifyAttachment(
+  attachment: ProofAttachmentInput,
+): Promise<{ attachment?: ProofAttachmentInput; error?: string }> {
+  if (!isProofFilePath(attachment.filePath)) {
+    return { error: `${attachment.fileName}: Invalid file path` }
+  }
+
+  const info = await getStorageProvider().head(attachment.filePath)
+  if (!info) {
+    return { error: `${attachment.fileName}: Uploaded file not found` }
+  }
+
+  const { fileType, sha256, metadata } = await inspectStoredFile(attachment.filePath)
+
+  if (!fileType || !matchesClaimedType(fileType, attachment.fileType)) {
+    console.error("Rejected attachment:", { path: attachment.filePath, claimed: attachment.fileType, fileType })
+    return { error: `${attachment.fileName}: File contents do not match its type` }
+  }
+
+  const thumbnailPath =
+    attachment.thumbnailPath && (await verifyThumbnail(attachment.thumbnailPath, attachment.filePath))
+      ? attachment.thumbnailPath
+      : undefined
+
+  const verified = { ...attachment, fileType, fileSize: info.size, sha256, thumbnailPath, metadata }
+  const fileError = validateProofFile({ type: verified.fileType, size: verified.fileSize })
+  if (fileError) {
+    return { error: `${attachment.fileName}: ${fileError}` }
+  }
+
+  return { attachment: verified }
+}
+
+// Repository errors carry the backend's message, which is what callers have always been shown
+function getErrorMessage(error: unknown, fallback: string) {
+  return error instanceof Error ? error.message : fallback
+}
+
+async function createProofRecord(proofData: ProofSubmission): Promise<{
+  success: boolean
+  error?: string
+  id?: number
+  attachments?: ProofAttachmentInput[]
+  submitterToken?: string
+}> {
+  try {
+    const termResult = await getTerm(proofData.termId)
+    if (!termResult.term) {
+      return { success: false, error: termResult.error }
+    }
+
+    // The form checks this too, but the action can be called directly
+    const linkError = proofData.proofLink ? validateProofLink(proofData.proofLink) : undefined
+    if (linkError) {
+      return { success: false, error: linkError }
+    }
+
+    if ((proofData.attachments ?? []).length > MAX_ATTACHMENTS) {
+      return { success: false, error: `A proof can have at most ${MAX_ATTACHMENTS} attachments` }
+    }
+
+    // The client's type and size are only claims; what's stored is recorded from the files themselves
+    const attachments: ProofAttachmentInput[] = []
+    for (const claimed of proofData.attachments ?? []) {
+      const result = await verifyAttachment(claimed)
+      if (!result.attachment) {
+        return { success: false, error: result.error }
+      }
+      attachments.push(result.attachment)
+    }
+
+    const missing = getMissingProofTypes(termResult.term, {
+      proofLink: proofData.proofLink,
+      fileTypes: attachments.map((attachment) => attachment.fileType),
+    })
+    if (missing.length > 0) {
+      return { success: false, error: formatMissingProofTypes(missing) }
+    }
+
+    const proof = await getProofRepository().create({
+      termId: proofData.termId,
+      proofLink: proofData.proofLink,
+      normalizedProofLink: proofData.proofLink ? normalizeProofLink(proofData.proofLink) : undefined,
+      attachments,
+      status: INITIAL_PROOF_STATUS,
+      createdAt: new Date().toISOString(),
+    })
+
+    return { success: true, id: proof.id, attachments, submitterToken: createSubmitterToken(proof) }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to save proof record") }
+  }
+}
+
+// Checks the proof link and stores a snapshot of the page for reviewers. Failures only cost the
+// snapshot; the check itself is recorded whenever the proof still exists.
+async function archiveProofLink(proofId: number, proofLink: string) {
+  const { check, snapshot } = await archiveLink(proofLink, { fetch: safeFetch })
+
+  let snapshotPath: string | undefined
+  if (snapshot) {
+    try {
+      snapshotPath = createProofFilePath("snapshot.html")
+      await getStorageProvider().upload(snapshotPath, new TextEncoder().encode(snapshot), {
+        contentType: "text/html; charset=utf-8",
+        cacheControl: "3600",
+      })
+    } catch (error) {
+      console.error("Storage error:", error)
+      snapshotPath = undefined
+    }
+  }
+
+  try {
+    await getProofRepository().updateLinkArchive(proofId, check, snapshotPath)
+  } catch (error) {
+    // An uploaded snapshot is left for the orphaned file sweeper
+    console.error("Database error:", error)
+  }
+}
+
+// Thumbnails have their own limits and must belong to a file the caller uploaded
+async function validateThumbnailUpload(request: ProofUploadRequest, thumbnailOf: UploadReceipt) {
+  if (!isThumbnailType(request.fileType)) {
+    return "Thumbnails must be WebP or JPEG images"
+  }
+
+  if (request.fileSize > MAX_THUMBNAIL_SIZE) {
+    return "Thumbnail is too large"
+  }
+
+  if (
+    !verifyUploadReceipt(thumbnailOf) ||
+    !isProofFilePath(thumbnailOf.path) ||
+    !(await getStorageProvider().head(thumbnailOf.path))
+  ) {
+    return "The file this thumbnail belongs to was not found"
+  }
+
+  return undefined
+}
+
+// Starts the upload of a proof file, picking its storage path. The browser sends the file straight
+// to the storage backend, in resumable chunks; the receipt lets it act on the upload later.
+export async function startProofUpload(
+  request: ProofUploadRequest,
+): Promise<{ success: boolean; error?: string; receipt?: UploadReceipt; target?: ResumableUploadTarget }> {
+  try {
+    const { fileName, fileType, fileSize, thumbnailOf } = request
+    if (!Number.isSafeInteger(fileSize) || fileSize <= 0) {
+      return { success: false, error: "File is empty" }
+    }
+
+    const validationError = thumbnailOf
+      ? await validateThumbnailUpload(request, thumbnailOf)
+      : validateProofFile({ type: fileType, size: fileSize })
+    if (validationError) {
+      return { success: false, error: validationError }
+    }
+
+    const path = thumbnailOf ? getThumbnailPath(thumbnailOf.path, fileType) : createProofFilePath(fileName)
+    const target = await getStorageProvider().createResumableUpload(path, {
+      contentType: fileType,
+      cacheControl: "3600",
+    })
+
+    return { success: true, receipt: createUploadReceipt(path), target }
+  } catch (error) {
+    console.error("Storage error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to start upload") }
+  }
+}
+
+// Records a proof for files that were already uploaded. The attachments are returned as verified and
+// recorded by the server, along with the token the submitter needs to resubmit the proof later, see
+// resubmitProof. If the proof can't be saved, the caller discards its uploads with their
+// receipts, see discardUploadedFiles.
+export async function submitProof(proofData: ProofSubmission): Promise<{
+  success: boolean
+  error?: string
+  id?: number
+  attachments?: ProofAttachmentInput[]
+  submitterToken?: string
+}> {
+  const result = await createProofRecord(proofData)
+
+  // Archiving fetches the page and its assets, so it runs once the response has been sent
+  const proofLink = proofData.proofLink
+  if (result.success && result.id !== undefined && proofLink) {
+    const proofId = result.id
+    after(() => archiveProofLink(proofId, proofLink))
+  }
+
+  return result
+}
+
+// Deletes uploads that never made it into a proof, e.g. after a cancelled or failed submission. Only
+// uploads the caller holds a receipt for are deleted, and files some proof already uses are never
+// touched; whatever is left over goes to the orphaned file sweeper.
+export async function discardUploadedFiles(uploads: UploadReceipt[]): Promise<{ success: boolean; error?: string }> {
+  try {
+    await deleteUnreferencedFiles(uploads.filter(verifyUploadReceipt).map((upload) => upload.path))
+    return { success: true }
+  } catch (error) {
+    // Left for the orphaned file sweeper
+    console.error("Storage error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to delete uploaded files") }
+  }
+}
+
+// Earlier proofs with any of the given files or the same link. Duplicates are only flagged, never
+// rejected, since reusing evidence can be legitimate.
+export async function findDuplicateProofs(check: {
+  fileHashes?: string[]
   proofLink?: string
-  fileName?: string
-  fileUrl?: string
-  fileSize?: number
-  fileType?: string
+  excludeProofId?: number
+}): Promise<{ success: boolean; error?: string; duplicates?: ProofDuplicate[] }> {
+  try {
+    const duplicates = await getProofRepository().findDuplicates({
+      sha256s: (check.fileHashes ?? []).filter((hash) => /^[0-9a-f]{64}$/.test(hash)),
+      normalizedProofLink: check.proofLink?.trim() ? normalizeProofLink(check.proofLink) : undefined,
+      excludeProofId: check.excludeProofId,
+    })
+
+    return { success: true, duplicates }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to check for duplicates") }
+  }
 }
 
-export async function insertProofRecord(
-  proofData: ProofSubmission,
-): Promise<{ success: boolean; error?: string; id?: number }> {
+export async function getProof(proofId: number): Promise<{ success: boolean; error?: string; proof?: ProofRecord }> {
   try {
-    const { data, error } = await supabaseAdmin
-      .from("proofs")
-      .insert([
-        {
-          proof_link: proofData.proofLink,
-          file_name: proofData.fileName,
-          file_url: proofData.fileUrl,
-          file_size: proofData.fileSize,
-          file_type: proofData.fileType,
-          created_at: new Date().toISOString(),
-          status: "pending",
-        },
-      ])
-      .select("id")
-      .single()
+    const proof = await getProofRepository().get(proofId)
 
-    if (error) {
-      console.error("Database error:", error)
-      return { success: false, error: error.message }
+    if (!proof) {
+      return { success: false, error: "Proof not found" }
     }
 
-    return { success: true, id: data.id }
+    return { success: true, proof }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to load proof") }
+  }
+}
+
+// Previews are refreshed once they're this old, since pages change their titles and images
+const LINK_PREVIEW_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+// The proof link's preview card, unfurled on first use and cached on the proof. A link that can't be
+// unfurled is cached as a bare preview too, so it isn't fetched again on every view.
+export async function getLinkPreview(
+  proofId: number,
+): Promise<{ success: boolean; error?: string; preview?: LinkPreview }> {
+  try {
+    const repository = getProofRepository()
+    const proof = await repository.get(proofId)
+
+    if (!proof) {
+      return { success: false, error: "Proof not found" }
+    }
+
+    if (!proof.proofLink) {
+      return { success: true }
+    }
+
+    const cached = proof.linkPreview
+    if (cached && Date.now() - new Date(cached.fetchedAt).getTime() < LINK_PREVIEW_TTL_MS) {
+      return { success: true, preview: cached }
+    }
+
+    let preview: LinkPreview
+    try {
+      preview = await unfurlLink(proof.proofLink, { fetch: safeFetch })
+    } catch (error) {
+      console.error("Link preview error:", error)
+      preview = { url: proof.proofLink, fetchedAt: new Date().toISOString() }
+    }
+
+    await repository.updateLinkPreview(proofId, preview)
+    return { success: true, preview }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to load link preview") }
+  }
+}
+
+export async function transitionProofStatus(
+  proofId: number,
+  nextStatus: ProofStatus,
+  review: ProofReview,
+): Promise<{ success: boolean; error?: string; status?: ProofStatus }> {
+  try {
+    if (!isProofStatus(nextStatus)) {
+      return { success: false, error: `Unknown proof status "${nextStatus}"` }
+    }
+
+    const repository = getProofRepository()
+    const proof = await repository.get(proofId)
+
+    if (!proof) {
+      return { success: false, error: "Proof not found" }
+    }
+
+    if (isSubmitterTransition(proof.status, nextStatus)) {
+      return { success: false, error: "Only the submitter can resubmit a proof" }
+    }
+
+    const reviewerId = await getReviewerId(review.accessToken)
+    if (!reviewerId) {
+      return { success: false, error: "Sign in with a reviewer account to change the proof status" }
+    }
+
+    const transitionError = validateTransition(proof.status, nextStatus, { reviewerId, notes: review.notes })
+    if (transitionError) {
+      return { success: false, error: transitionError }
+    }
+
+    // Only update if nobody else moved the proof in the meantime
+    const updated = await repository.updateStatus({
+      proofId,
+      fromStatus: proof.status,
+      toStatus: nextStatus,
+      reviewerId,
+      notes: review.notes?.trim() || undefined,
+      updatedAt: new Date().toISOString(),
+    })
+
+    if (!updated) {
+      return { success: false, error: "Proof status was changed by someone else, please reload and try again" }
+    }
+
+    return { success: true, status: nextStatus }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to update proof status") }
+  }
+}
+
+// Puts a proof sent back for changes in the review queue again. Only the submitter can do this, by
+// presenting the token submitProof gave them.
+export async function resubmitProof(
+  proofId: number,
+  resubmission: ProofResubmission,
+): Promise<{ success: boolean; error?: string; status?: ProofStatus }> {
+  try {
+    const repository = getProofRepository()
+    const proof = await repository.get(proofId)
+
+    if (!proof) {
+      return { success: false, error: "Proof not found" }
+    }
+
+    if (!verifySubmitterToken(proof, resubmission.submitterToken)) {
+      return { success: false, error: "Only the submitter can resubmit a proof" }
+    }
+
+    if (!isSubmitterTransition(proof.status, INITIAL_PROOF_STATUS)) {
+      return { success: false, error: "Only proofs sent back for changes can be resubmitted" }
+    }
+
+    const updated = await repository.updateStatus({
+      proofId,
+      fromStatus: proof.status,
+      toStatus: INITIAL_PROOF_STATUS,
+      reviewerId: SUBMITTER_ID,
+      notes: resubmission.notes?.trim() || undefined,
+      bySubmitter: true,
+      updatedAt: new Date().toISOString(),
+    })
+
+    if (!updated) {
+      return { success: false, error: "Proof status was changed by someone else, please reload and try again" }
+    }
+
+    return { success: true, status: INITIAL_PROOF_STATUS }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to resubmit proof") }
+  }
+}
+
+export async function getProofStatusHistory(
+  proofId: number,
+): Promise<{ success: boolean; error?: string; events?: ProofStatusEvent[] }> {
+  try {
+    const events = await getProofRepository().listStatusEvents(proofId)
+    return { success: true, events }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to load proof status history") }
+  }
+}
+
+export async function listProofs(
+  query: ProofListQuery,
+): Promise<{ success: boolean; error?: string; proofs?: ProofRecord[]; total?: number }> {
+  try {
+    const { proofs, total } = await getProofRepository().list(query)
+    return { success: true, proofs, total }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to load proofs") }
+  }
+}
+
+// Signs a short-lived URL for a file a proof uses, called whenever a viewer or download needs one
+export async function getSignedFileUrl(
+  filePath: string,
+): Promise<{ success: boolean; error?: string; url?: string; expiresAt?: string }> {
+  try {
+    if (!isProofFilePath(filePath)) {
+      return { success: false, error: "Invalid file path" }
+    }
+
+    // Uploads that never made it into a proof stay private, as do paths that were never uploaded
+    const [referenced] = await getProofRepository().findReferencedFilePaths([filePath])
+    if (!referenced || !(await getStorageProvider().head(filePath))) {
+      return { success: false, error: "File not found" }
+    }
+
+    // Taken before signing so the reported expiry is never later than the real one
+    const expiresAt = new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000).toISOString()
+    const url = await getStorageProvider().getSignedUrl(filePath, SIGNED_URL_TTL_SECONDS)
+    return { success: true, url, expiresAt }
+  } catch (error) {
+    console.error("Storage error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to create file URL") }
+  }
+}
+
+// Signs several files at once, e.g. the thumbnails of a listing. Paths getSignedFileUrl would refuse
+// are left out of the result.
+export async function getSignedFileUrls(
+  filePaths: string[],
+): Promise<{ success: boolean; error?: string; urls?: Record<string, string> }> {
+  try {
+    const storage = getStorageProvider()
+    const referenced = await getProofRepository().findReferencedFilePaths(
+      [...new Set(filePaths)].filter(isProofFilePath),
+    )
+    const stored = await Promise.all(referenced.map((path) => storage.head(path)))
+    const paths = referenced.filter((_, index) => stored[index])
+    const signed = await Promise.all(paths.map((path) => storage.getSignedUrl(path, SIGNED_URL_TTL_SECONDS)))
+    return { success: true, urls: Object.fromEntries(paths.map((path, index) => [path, signed[index]])) }
+  } catch (error) {
+    console.error("Storage error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to create file URLs") }
+  }
+}
+
+export async function getTerm(termId: number): Promise<{ success: boolean; error?: string; term?: Term }> {
+  try {
+    const term = await getTermRepository().get(termId)
+
+    if (!term) {
+      return { success: false, error: "Term not found" }
+    }
+
+    return { success: true, term }
+  } catch (error) {
+    console.error("Database error:", error)
+    return { success: false, error: getErrorMessage(error, "Failed to load term") }
+  }
+}
+
+export async function listTerms(): Promise<{ success: boolean; error?: string; terms?: Term[] }> {
+  try {
+    const terms = await getTermRepository().list()
+    return { success: true, terms }
   } catch (error) {
     console.error("Database error:", error)
-    return { success: false, error: "Failed to save proof record" }
+    return { success: false, error: getErrorMessage(error, "Failed to load terms") }
   }
 }
@@ -0,0 +1,54 @@
+// Terms are the obligations that proofs are submitted against
+
+// File types match on the top-level MIME type, like the proofs filter; "application" is a PDF
+export const TERM_PROOF_TYPES = ["link", "image", "video", "application"] as const
+
+export type TermProofType = (typeof TERM_PROOF_TYPES)[number]
+
+export const TERM_PROOF_TYPE_LABELS: Record<TermProofType, string> = {
+  link: "Proof link",
+  image: "Image",
+  video: "Video",
+  application: "PDF",
+}
+
+export interface Term {
+  id: number
+  title: string
+  description?: string
+  requiredProofTypes: TermProofType[]
+  dueDate?: string
+  createdAt: string
+}
+
+export interface TermInput {
+  title: string
+  description?: string
+  requiredProofTypes?: TermProofType[]
+  dueDate?: string
+}
+
+export function isTermProofType(value: unknown): value is TermProofType {
+  return typeof value === "string" && (TERM_PROOF_TYPES as readonly string[]).includes(value)
+}
+
+export function isTermOverdue(term: Term, now = new Date()) {
+  return term.dueDate !== undefined && new Date(term.dueDate).getTime() < now.getTime()
+}
+
+// Lists the proof types the term requires that the submission does not provide
+export function getMissingProofTypes(
+  term: Pick<Term, "requiredProofTypes">,
+  submission: { proofLink?: string; fileTypes?: string[] },
+): TermProofType[] {
+  const fileTypes = submission.fileTypes ?? []
+
+  return term.requiredProofTypes.filter((type) => {
+    if (type === "link") return !submission.proofLink
+    return !fileTypes.some((fileType) => fileType.startsWith(`${type}/`))
+  })
+}
+
+export function formatMissingProofTypes(missing: TermProofType[]) {
+  return `This term requires: ${missing.map((type) => TERM_PROOF_TYPE_LABELS[type]).join(", ")}`
+}
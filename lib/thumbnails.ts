@@ -0,0 +1,128 @@
+// Browser-side thumbnails for images and PDFs, and poster frames for videos. They are uploaded next to the
+// original so listings and the video player don't have to download the full file to show a preview.
+
+import { openPdf, type PDFDocumentProxy } from "./pdf"
+import { isPdfType } from "./validation"
+
+// Longest side of a thumbnail in pixels
+const THUMBNAIL_SIZE = 320
+const THUMBNAIL_QUALITY = 0.75
+// Seconds into the video to take the poster frame from, skipping the black first frame
+const POSTER_FRAME_TIME = 1
+// Give up on videos the browser can't decode or seek quickly
+const VIDEO_TIMEOUT_MS = 10000
+
+type Drawable = ImageBitmap | HTMLVideoElement | HTMLCanvasElement
+
+async function encodeThumbnail(source: Drawable, width: number, height: number, fileName: string) {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(width, height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(width * scale))
+  canvas.height = Math.max(1, Math.round(height * scale))
+
+  const context = canvas.getContext("2d")
+  if (!context) return null
+  context.drawImage(source, 0, 0, canvas.width, canvas.height)
+
+  const toBlob = (mimeType: string) =>
+    new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, mimeType, THUMBNAIL_QUALITY))
+
+  // Browsers without a WebP encoder silently hand back a PNG
+  let blob = await toBlob("image/webp")
+  if (!blob || blob.type !== "image/webp") {
+    context.fillStyle = "#fff"
+    context.globalCompositeOperation = "destination-over"
+    context.fillRect(0, 0, canvas.width, canvas.height)
+    blob = await toBlob("image/jpeg")
+  }
+  if (!blob) return null
+
+  const baseName = fileName.includes(".") ? fileName.slice(0, fileName.lastIndexOf(".")) : fileName
+  const extension = blob.type === "image/webp" ? "webp" : "jpg"
+  return new File([blob], `${baseName}.thumb.${extension}`, { type: blob.type })
+}
+
+async function createImageThumbnail(file: File) {
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: "from-image" })
+  } catch {
+    return null
+  }
+
+  try {
+    return await encodeThumbnail(bitmap, bitmap.width, bitmap.height, file.name)
+  } finally {
+    bitmap.close()
+  }
+}
+
+function createPosterFrame(file: File) {
+  const url = URL.createObjectURL(file)
+  const video = document.createElement("video")
+  video.muted = true
+  video.playsInline = true
+  video.preload = "auto"
+
+  return new Promise<File | null>((resolve) => {
+    const timeout = window.setTimeout(() => finish(null), VIDEO_TIMEOUT_MS)
+
+    function finish(result: File | null) {
+      window.clearTimeout(timeout)
+      video.removeAttribute("src")
+      video.load()
+      URL.revokeObjectURL(url)
+      resolve(result)
+    }
+
+    video.onerror = () => finish(null)
+    video.onloadedmetadata = () => {
+      const duration = Number.isFinite(video.duration) ? video.duration : 0
+      video.currentTime = Math.min(POSTER_FRAME_TIME, duration / 2)
+    }
+    video.onseeked = () => {
+      if (!video.videoWidth || !video.videoHeight) return finish(null)
+      encodeThumbnail(video, video.videoWidth, video.videoHeight, file.name)
+        .then(finish)
+        .catch(() => finish(null))
+    }
+
+    video.src = url
+  })
+}
+
+// Renders the first page at thumbnail size
+async function createPdfThumbnail(file: File) {
+  let document: PDFDocumentProxy
+  try {
+    document = await openPdf(await file.arrayBuffer())
+  } catch {
+    return null
+  }
+
+  try {
+    const page = await document.getPage(1)
+    const { width, height } = page.getViewport({ scale: 1 })
+    const viewport = page.getViewport({ scale: THUMBNAIL_SIZE / Math.max(width, height) })
+
+    const canvas = window.document.createElement("canvas")
+    canvas.width = Math.max(1, Math.round(viewport.width))
+    canvas.height = Math.max(1, Math.round(viewport.height))
+    await page.render({ canvas, viewport }).promise
+
+    return await encodeThumbnail(canvas, canvas.width, canvas.height, file.name)
+  } catch {
+    return null
+  } finally {
+    await document.destroy()
+  }
+}
+
+// Resolves to a small preview of the file, or null if the browser can't decode it
+export async function createThumbnail(file: File): Promise<File | null> {
+  if (file.type === "image/svg+xml") return null
+  if (file.type.startsWith("image/")) return createImageThumbnail(file)
+  if (file.type.startsWith("video/")) return createPosterFrame(file)
+  if (isPdfType(file.type)) return createPdfThumbnail(file)
+  return null
+}
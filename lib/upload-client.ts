@@ -0,0 +1,15 @@
+import { createResumableUploader, type ResumableUploadOptions } from "./resumable-upload"
+import type { UploadReceipt } from "./upload-receipts"
+
+// Browser-side upload of proof files, resumable so large videos survive flaky connections
+export async function uploadProofFile(
+  file: File,
+  options?: ResumableUploadOptions,
+): Promise<{ upload?: UploadReceipt; error?: string }> {
+  try {
+    return { upload: await createResumableUploader(file, options).start() }
+  } catch (error) {
+    console.error("Upload error:", error)
+    return { error: error instanceof Error ? error.message : "Failed to upload file" }
+  }
+}
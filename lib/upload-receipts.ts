@@ -0,0 +1,35 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { getSigningSecret } from "./storage"
+
+// Proof that whoever holds it started the upload of a storage path. Paths are easy to guess, so
+// anything acting on an upload before it belongs to a proof, such as attaching a thumbnail to it or
+// discarding it, asks for the receipt rather than the bare path.
+export interface UploadReceipt {
+  path: string
+  token: string
+}
+
+// Long enough to cover a slow upload and the submission that follows; after that, leftover files
+// are the orphaned file sweeper's to delete
+const RECEIPT_TTL_SECONDS = 24 * 60 * 60
+
+// Prefixed so no other signature made with the same key can pass for a receipt
+const sign = (path: string, expires: number) =>
+  createHmac("sha256", getSigningSecret()).update(`upload-receipt\n${path}\n${expires}`).digest("base64url")
+
+export function createUploadReceipt(path: string): UploadReceipt {
+  const expires = Math.floor(Date.now() / 1000) + RECEIPT_TTL_SECONDS
+  return { path, token: `${expires}.${sign(path, expires)}` }
+}
+
+export function verifyUploadReceipt(receipt: UploadReceipt) {
+  const [expiresPart, signature = ""] = String(receipt.token).split(".")
+  const expires = Number(expiresPart)
+  if (typeof receipt.path !== "string" || !Number.isSafeInteger(expires) || expires < Date.now() / 1000) {
+    return false
+  }
+
+  const actual = Buffer.from(signature)
+  const expected = Buffer.from(sign(receipt.path, expires))
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
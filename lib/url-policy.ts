@@ -0,0 +1,156 @@
+// Which URLs proof links may point at, and so which ones the server may fetch. Shared by form
+// validation in the browser and by server-side fetching, so it only inspects the URL itself; names
+// that resolve to private addresses are caught at connect time by safeFetch.
+
+export const ALLOWED_URL_SCHEMES = ["http:", "https:"]
+
+export interface UrlPolicy {
+  // When non-empty, only these domains and their subdomains are accepted
+  allowedDomains: string[]
+  blockedDomains: string[]
+}
+
+const parseDomainList = (value: string | undefined) =>
+  (value ?? "")
+    .split(",")
+    .map((domain) =>
+      domain
+        .trim()
+        .toLowerCase()
+        .replace(/^\*?\./, ""),
+    )
+    .filter(Boolean)
+
+// NEXT_PUBLIC_ so the browser applies the same lists the server does
+export function getUrlPolicy(): UrlPolicy {
+  return {
+    allowedDomains: parseDomainList(process.env.NEXT_PUBLIC_PROOF_LINK_ALLOWED_DOMAINS),
+    blockedDomains: parseDomainList(process.env.NEXT_PUBLIC_PROOF_LINK_BLOCKED_DOMAINS),
+  }
+}
+
+const matchesDomain = (hostname: string, domain: string) => hostname === domain || hostname.endsWith(`.${domain}`)
+
+function parseIPv4(address: string): number[] | undefined {
+  const parts = address.split(".")
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return undefined
+  return parts.map(Number)
+}
+
+// Ranges that aren't the public internet: this host, private networks, CGNAT, link-local,
+// documentation and benchmarking ranges, multicast and reserved space
+function isReservedIPv4([a, b, c]: number[]) {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0 && (c === 0 || c === 2)) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    (a === 198 && b === 51 && c === 100) ||
+    (a === 203 && b === 0 && c === 113)
+  )
+}
+
+// Expands an IPv6 address into its eight 16-bit groups
+function parseIPv6(address: string): number[] | undefined {
+  let text = address
+    .replace(/^\[|\]$/g, "")
+    .split("%")[0]
+    .toLowerCase()
+
+  // A trailing dotted IPv4 part, as in ::ffff:127.0.0.1
+  const ipv4 = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (ipv4) {
+    const octets = parseIPv4(ipv4[2])
+    if (!octets) return undefined
+    text = `${ipv4[1]}${((octets[0] << 8) | octets[1]).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`
+  }
+
+  const halves = text.split("::")
+  if (halves.length > 2) return undefined
+
+  const parseGroups = (half: string) => (half ? half.split(":") : [])
+  const head = parseGroups(halves[0])
+  const tail = halves.length === 2 ? parseGroups(halves[1]) : []
+  const missing = 8 - head.length - tail.length
+  if ((halves.length === 2 && missing < 1) || (halves.length === 1 && missing !== 0)) return undefined
+
+  const groups = [...head, ...Array<string>(halves.length === 2 ? missing : 0).fill("0"), ...tail]
+  if (!groups.every((group) => /^[0-9a-f]{1,4}$/.test(group))) return undefined
+  return groups.map((group) => Number.parseInt(group, 16))
+}
+
+function isReservedIPv6(groups: number[]) {
+  const [first] = groups
+  const embeddedIPv4 = [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]
+
+  // Unspecified (::) and loopback (::1)
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] <= 1) return true
+  // IPv4-mapped (::ffff:0:0/96), IPv4-compatible (::/96) and NAT64 (64:ff9b::/96) addresses reach the
+  // embedded IPv4 address
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) return isReservedIPv4(embeddedIPv4)
+  if (groups.slice(0, 6).every((group) => group === 0)) return isReservedIPv4(embeddedIPv4)
+  if (first === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isReservedIPv4(embeddedIPv4)
+  }
+  // 6to4 (2002::/16) carries the IPv4 address right after the prefix
+  if (first === 0x2002) {
+    return isReservedIPv4([groups[1] >> 8, groups[1] & 0xff, groups[2] >> 8, groups[2] & 0xff])
+  }
+
+  return (
+    (first & 0xfe00) === 0xfc00 || // Unique local
+    (first & 0xffc0) === 0xfe80 || // Link-local
+    (first & 0xff00) === 0xff00 || // Multicast
+    (first === 0x2001 && groups[1] === 0x0db8) || // Documentation
+    (first === 0x0100 && groups.slice(1, 4).every((group) => group === 0)) // Discard-only
+  )
+}
+
+// True for IP addresses outside the public internet. Anything that isn't an IP address is false.
+export function isReservedAddress(address: string) {
+  const ipv4 = parseIPv4(address)
+  if (ipv4) return isReservedIPv4(ipv4)
+
+  const ipv6 = address.includes(":") ? parseIPv6(address) : undefined
+  return ipv6 ? isReservedIPv6(ipv6) : false
+}
+
+// Returns why a URL may not be used as a proof link or fetched by the server, otherwise undefined
+export function checkUrlPolicy(link: string | URL, policy: UrlPolicy = getUrlPolicy()): string | undefined {
+  let url: URL
+  try {
+    url = new URL(link)
+  } catch {
+    return "Please enter a valid URL format (e.g., https://example.com)"
+  }
+
+  if (!ALLOWED_URL_SCHEMES.includes(url.protocol)) {
+    return "Links must start with http:// or https://"
+  }
+
+  if (url.username || url.password) {
+    return "Links must not contain a username or password"
+  }
+
+  // URL has already normalized shorthand IPv4 forms such as http://2130706433/ to dotted quads
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, "")
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || isReservedAddress(hostname)) {
+    return "Links to local or private network addresses are not allowed"
+  }
+
+  if (policy.blockedDomains.some((domain) => matchesDomain(hostname, domain))) {
+    return `Links to ${hostname} are not allowed`
+  }
+
+  if (policy.allowedDomains.length > 0 && !policy.allowedDomains.some((domain) => matchesDomain(hostname, domain))) {
+    return `Links must point to one of: ${policy.allowedDomains.join(", ")}`
+  }
+
+  return undefined
+}
@@ -1,24 +1,59 @@
 import { z } from "zod"
+import { checkUrlPolicy } from "./url-policy"
+
+// File limits
+export const MAX_IMAGE_SIZE = 1 * 1024 * 1024 // 1MB for images
+export const MAX_VIDEO_SIZE = 250 * 1024 * 1024 // 250MB for videos, uploaded in resumable chunks
+export const MAX_PDF_SIZE = 20 * 1024 * 1024 // 20MB for PDF documents such as invoices
+export const MAX_ATTACHMENTS = 10
+export const MAX_THUMBNAIL_SIZE = 256 * 1024 // 256KB for generated thumbnails and poster frames
+
+export const isPdfType = (type: string) => type === "application/pdf"
+
+// SVG is markup that can carry scripts, not a photo, so it's the one image type turned away
+export function isAllowedFileType(type: string) {
+  return (type.startsWith("image/") && type !== "image/svg+xml") || type.startsWith("video/") || isPdfType(type)
+}
+
+export function getMaxFileSize(type: string) {
+  if (type.startsWith("image/")) return MAX_IMAGE_SIZE
+  return isPdfType(type) ? MAX_PDF_SIZE : MAX_VIDEO_SIZE
+}
+
+export function formatSizeLimit(bytes: number) {
+  return `${Math.round(bytes / (1024 * 1024))}MB`
+}
+
+// Returns an error message for a file that cannot be attached, otherwise undefined
+export function validateProofFile(file: Pick<File, "type" | "size">): string | undefined {
+  if (!isAllowedFileType(file.type)) {
+    return "File must be an image, video or PDF"
+  }
+
+  const maxSize = getMaxFileSize(file.type)
+  if (file.size > maxSize) {
+    return `File size must be less than ${formatSizeLimit(maxSize)}`
+  }
+
+  return undefined
+}
+
+// Returns an error message for a proof link that is malformed or not allowed, otherwise undefined
+export function validateProofLink(link: string): string | undefined {
+  if (!z.string().url().safeParse(link).success) {
+    return "Please enter a valid URL format (e.g., https://example.com)"
+  }
+
+  return checkUrlPolicy(link)
+}
 
 // File validation schema
-const fileSchema = z
-  .instanceof(File)
-  .refine((file) => {
-    const isImage = file.type.startsWith("image/")
-    const isVideo = file.type.startsWith("video/")
-    return isImage || isVideo
-  }, "File must be an image or video")
-  .refine(
-    (file) => {
-      const isImage = file.type.startsWith("image/")
-      const maxSize = isImage ? 1 * 1024 * 1024 : 5 * 1024 * 1024 // 1MB for images, 5MB for videos
-      return file.size <= maxSize
-    },
-    (file) => {
-      const isImage = file.type.startsWith("image/")
-      return `File size must be less than ${isImage ? "1MB" : "5MB"}`
-    },
-  )
+const fileSchema = z.instanceof(File).superRefine((file, ctx) => {
+  const message = validateProofFile(file)
+  if (message) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+  }
+})
 
 // Main form schema
 export const addProofSchema = z
@@ -26,51 +61,17 @@ export const addProofSchema = z
     proofLink: z
       .string()
       .optional()
-      .refine((val) => !val || z.string().url().safeParse(val).success, {
-        message: "Please enter a valid URL format (e.g., https://example.com)",
+      .superRefine((val, ctx) => {
+        const message = val ? validateProofLink(val) : undefined
+        if (message) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message })
+        }
       }),
-    file: z.instanceof(File).optional().or(z.literal(undefined)),
+    files: z.array(fileSchema).max(MAX_ATTACHMENTS, `You can attach up to ${MAX_ATTACHMENTS} files`),
   })
-  .refine((data) => data.proofLink || data.file, {
+  .refine((data) => data.proofLink || data.files.length > 0, {
     message: "Please provide either a proof link or upload a file",
     path: ["root"],
   })
-  .refine(
-    (data) => {
-      if (!data.file) return true
-
-      // Check file type
-      const isImage = data.file.type.startsWith("image/")
-      const isVideo = data.file.type.startsWith("video/")
-      if (!isImage && !isVideo) return false
-
-      // Check file size
-      const maxSize = isImage ? 1 * 1024 * 1024 : 5 * 1024 * 1024
-      return data.file.size <= maxSize
-    },
-    (data) => {
-      if (!data.file) return { message: "", path: ["file"] }
-
-      const isImage = data.file.type.startsWith("image/")
-      const isVideo = data.file.type.startsWith("video/")
-
-      if (!isImage && !isVideo) {
-        return {
-          message: "File must be an image or video",
-          path: ["file"],
-        }
-      }
-
-      const maxSize = isImage ? 1 * 1024 * 1024 : 5 * 1024 * 1024
-      if (data.file.size > maxSize) {
-        return {
-          message: `File size must be less than ${isImage ? "1MB" : "5MB"}`,
-          path: ["file"],
-        }
-      }
-
-      return { message: "", path: ["file"] }
-    },
-  )
 
 export type AddProofFormData = z.infer<typeof addProofSchema>
@@ -0,0 +1,88 @@
+-- Tables behind the Supabase repositories, see lib/repositories/supabase-repository.ts. Projects
+-- created before terms, attachments and reviews existed already have a `proofs` table, so every
+-- statement is written to apply on top of it as well as on an empty database.
+
+create table if not exists public.terms (
+  id bigint generated by default as identity primary key,
+  title text not null,
+  description text,
+  -- Values from TERM_PROOF_TYPES; unknown ones are ignored when read
+  required_proof_types text[] not null default '{}',
+  due_date timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.proofs (
+  id bigint generated by default as identity primary key,
+  proof_link text,
+  file_name text,
+  file_size bigint,
+  file_type text,
+  status text not null default 'pending',
+  created_at timestamptz not null default now()
+);
+
+alter table public.proofs
+  add column if not exists term_id bigint references public.terms (id),
+  add column if not exists normalized_proof_link text,
+  add column if not exists link_preview jsonb,
+  add column if not exists link_check jsonb,
+  add column if not exists link_snapshot_path text,
+  -- The primary attachment, copied here so listings don't need to join attachments
+  add column if not exists file_path text,
+  add column if not exists thumbnail_path text,
+  add column if not exists attachment_count integer not null default 0,
+  add column if not exists reviewer_id text,
+  add column if not exists reviewer_notes text,
+  add column if not exists status_updated_at timestamptz;
+
+-- Older projects stored a public file URL with every proof; files are now private and signed on demand
+do $$
+begin
+  if exists (
+    select 1 from information_schema.columns
+    where table_schema = 'public' and table_name = 'proofs' and column_name = 'file_url'
+  ) then
+    alter table public.proofs alter column file_url drop not null;
+  end if;
+end
+$$;
+
+alter table public.proofs drop constraint if exists proofs_status_check;
+alter table public.proofs
+  add constraint proofs_status_check
+  check (status in ('pending', 'under_review', 'approved', 'rejected', 'needs_changes'));
+
+create table if not exists public.proof_attachments (
+  id bigint generated by default as identity primary key,
+  proof_id bigint not null references public.proofs (id) on delete cascade,
+  -- Display order; position 0 is the proof's primary file
+  position integer not null,
+  file_name text not null,
+  file_path text not null,
+  file_size bigint not null,
+  file_type text not null,
+  sha256 text,
+  thumbnail_path text,
+  metadata jsonb,
+  created_at timestamptz not null default now(),
+  unique (proof_id, position)
+);
+
+create table if not exists public.proof_status_events (
+  id bigint generated by default as identity primary key,
+  proof_id bigint not null references public.proofs (id) on delete cascade,
+  from_status text not null,
+  to_status text not null,
+  -- Reviewer email or user id, or "submitter" for resubmissions
+  reviewer_id text not null,
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+-- The server reaches these tables with the service role key, which bypasses row level security. With
+-- no policies, the anon key the browser holds for reviewer sign-in can't read or write them.
+alter table public.terms enable row level security;
+alter table public.proofs enable row level security;
+alter table public.proof_attachments enable row level security;
+alter table public.proof_status_events enable row level security;
@@ -0,0 +1,30 @@
+-- Indexes for the queries in lib/repositories/supabase-repository.ts
+
+-- The proofs index, sorted by PROOF_SORT_FIELDS with the id as tie-breaker, and optionally scoped to
+-- a term or filtered by status. Sorts put nulls last in either direction.
+create index if not exists proofs_created_at_idx on public.proofs (created_at desc, id desc);
+create index if not exists proofs_file_size_idx on public.proofs (file_size desc nulls last, id desc);
+create index if not exists proofs_term_id_created_at_idx on public.proofs (term_id, created_at desc, id desc);
+create index if not exists proofs_status_created_at_idx on public.proofs (status, created_at desc, id desc);
+
+-- The file type filter matches a MIME type prefix with `like 'image/%'`, which needs pattern ops
+create index if not exists proof_attachments_file_type_idx
+  on public.proof_attachments (file_type text_pattern_ops, proof_id);
+
+-- Duplicate checks
+create index if not exists proof_attachments_sha256_idx on public.proof_attachments (sha256) where sha256 is not null;
+create index if not exists proofs_normalized_proof_link_idx
+  on public.proofs (normalized_proof_link) where normalized_proof_link is not null;
+
+-- Paths looked up when signing file URLs and sweeping orphaned files
+create index if not exists proof_attachments_file_path_idx on public.proof_attachments (file_path);
+create index if not exists proof_attachments_thumbnail_path_idx
+  on public.proof_attachments (thumbnail_path) where thumbnail_path is not null;
+create index if not exists proofs_link_snapshot_path_idx
+  on public.proofs (link_snapshot_path) where link_snapshot_path is not null;
+
+-- A proof's review history, oldest first
+create index if not exists proof_status_events_proof_id_idx on public.proof_status_events (proof_id, created_at);
+
+-- The terms list, by due date
+create index if not exists terms_due_date_idx on public.terms (due_date, id);